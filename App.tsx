@@ -1,12 +1,43 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { jsPDF } from 'jspdf';
-import { isValidHex, normalizeHex, copyToClipboard, hexToRgbString } from './utils/colorUtils';
+import { copyToClipboard, downloadBlob, hexToRgbString, getPerceptualReadouts, getContrastType } from './utils/colorUtils';
+import { CUSTOM_PROFILE_ID, RENDERING_INTENTS } from './utils/colorManagement';
+import { PRESS_PROFILES, getPressProfile } from './utils/pressProfiles';
+import { getSoftProof } from './utils/softProof';
+import { BLACK_GENERATION_OPTIONS, DEFAULT_INK_SETTINGS, TAC_MAX, TAC_MIN, clampTacLimit } from './utils/inkCoverage';
 import { useAiCmyk } from './hooks/useAiCmyk';
-import { ColorRecord, Collection } from './types';
+import { useIccProfile } from './hooks/useIccProfile';
+import { useSpotLibraries } from './hooks/useSpotLibraries';
+import { useImagePalette } from './hooks/useImagePalette';
+import { useCollectionHistory } from './hooks/useCollectionHistory';
+import { useAiSettings } from './hooks/useAiSettings';
+import { formatSpotName } from './utils/spotLibraries';
+import { SpotMatchPanel } from './components/SpotMatchPanel';
+import { ContrastMatrix } from './components/ContrastMatrix';
+import { ExportPanel } from './components/ExportPanel';
+import { ColorEditPanel } from './components/ColorEditPanel';
+import { PaletteGenerator } from './components/PaletteGenerator';
+import { ImagePalettePreview } from './components/ImagePalettePreview';
+import { ImportDialog } from './components/ImportDialog';
+import { AiSettingsPanel } from './components/AiSettingsPanel';
+import { AiCachePanel } from './components/AiCachePanel';
+import { PdfExportDialog } from './components/PdfExportDialog';
+import { RingAroundPanel } from './components/RingAroundPanel';
+import { parseColorInput } from './utils/colorParser';
+import { parseSwatchFile, SwatchGroup, SwatchModel, writeAco, writeAse } from './utils/adobeSwatches';
+import { resolvePrintConversion } from './utils/aiColorService';
+import { getProviderInfo } from './utils/aiProviders';
+import { getColorLabel, MAX_SELECTED, validateCollections } from './utils/collections';
+import { applyImport, ImportPlanItem } from './utils/paletteImport';
+import { buildShareUrl, decodeCollection, findSharePayload, takeSharedContent } from './utils/shareLink';
+import { buildProofPdf, createPdf, pageDimensions, PdfPageOptions, PdfSheetMode, ProofColor } from './utils/proofSheet';
+import { VisionFilters, visionFilterStyle } from './components/VisionFilters';
+import { VISION_MODES, VisionMode, findConfusablePairs } from './utils/visionSimulation';
+import { PrintIcon, PlusIcon, CopyIcon, CheckIcon, XIcon, DownloadIcon, SaveIcon, UploadIcon, SwatchIcon, PencilIcon, LockIcon, UndoIcon, RedoIcon, ShareIcon, GridIcon } from './components/Icons';
+import { ColorRecord, Collection, RenderingIntent, InkSettings, BlackGeneration, SpotAssignment, ContrastType } from './types';
 
-const STORAGE_KEY_COLLECTIONS = 'hexviewer_collections_v2';
 const STORAGE_KEY_ACTIVE_ID = 'hexviewer_active_id';
+const STORAGE_KEY_INK_SETTINGS = 'hexviewer_ink_settings';
 
 const DEFAULT_COLLECTIONS: Collection[] = [
   {
@@ -22,49 +53,53 @@ const DEFAULT_COLLECTIONS: Collection[] = [
   }
 ];
 
-const loadCollections = (): Collection[] => {
+const saveActiveId = (id: string) => {
   try {
-    const saved = localStorage.getItem(STORAGE_KEY_COLLECTIONS);
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
-    }
+    localStorage.setItem(STORAGE_KEY_ACTIVE_ID, id);
   } catch (e) {
-    console.warn('Failed to load collections from localStorage:', e);
+    console.warn('Failed to save active ID to localStorage:', e);
   }
-  return DEFAULT_COLLECTIONS;
 };
 
-const saveCollections = (collections: Collection[]) => {
+const loadInkSettings = (): InkSettings => {
   try {
-    localStorage.setItem(STORAGE_KEY_COLLECTIONS, JSON.stringify(collections));
+    const saved = localStorage.getItem(STORAGE_KEY_INK_SETTINGS);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (BLACK_GENERATION_OPTIONS.some(o => o.id === parsed.blackGeneration)) {
+        return { tacLimit: clampTacLimit(Number(parsed.tacLimit) || DEFAULT_INK_SETTINGS.tacLimit), blackGeneration: parsed.blackGeneration };
+      }
+    }
   } catch (e) {
-    console.warn('Failed to save collections to localStorage:', e);
+    console.warn('Failed to load ink settings from localStorage:', e);
   }
+  return DEFAULT_INK_SETTINGS;
 };
 
-const saveActiveId = (id: string) => {
+const saveInkSettings = (settings: InkSettings) => {
   try {
-    localStorage.setItem(STORAGE_KEY_ACTIVE_ID, id);
+    localStorage.setItem(STORAGE_KEY_INK_SETTINGS, JSON.stringify(settings));
   } catch (e) {
-    console.warn('Failed to save active ID to localStorage:', e);
+    console.warn('Failed to save ink settings to localStorage:', e);
   }
 };
 
 const App: React.FC = () => {
-  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  const {
+    collections, setCollections, undo, redo, canUndo, canRedo, toast: undoToast, dismissToast,
+    isLoaded, saveError, retrySave,
+  } = useCollectionHistory(DEFAULT_COLLECTIONS);
 
   const [activeCollectionId, setActiveCollectionId] = useState<string>(() => {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY_ACTIVE_ID);
-      const cols = loadCollections();
-      return saved && cols.some(c => c.id === saved) ? saved : cols[0]?.id || '';
+      return localStorage.getItem(STORAGE_KEY_ACTIVE_ID) || DEFAULT_COLLECTIONS[0].id;
     } catch {
-      return collections[0]?.id || '';
+      return DEFAULT_COLLECTIONS[0].id;
     }
   });
 
   const [inputValue, setInputValue] = useState('');
+  const parsedInput = useMemo(() => parseColorInput(inputValue), [inputValue]);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [newCollectionName, setNewCollectionName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
@@ -73,26 +108,42 @@ const App: React.FC = () => {
   const [editingColName, setEditingColName] = useState('');
   const [dragId, setDragId] = useState<string | null>(null);
   const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [inkSettings, setInkSettings] = useState<InkSettings>(loadInkSettings);
+  const [spotColorId, setSpotColorId] = useState<string | null>(null);
+  const [editColorId, setEditColorId] = useState<string | null>(null);
+  const [generatorColorId, setGeneratorColorId] = useState<string | null>(null);
+  const [ringAroundColorId, setRingAroundColorId] = useState<string | null>(null);
+  const longPressRef = useRef<{ timer?: number; fired: boolean }>({ fired: false });
+  const [showContrast, setShowContrast] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showAiCache, setShowAiCache] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; collections: Collection[]; issues: string[] } | null>(null);
+  const [visionMode, setVisionMode] = useState<VisionMode>('normal');
 
   // Refs to track latest state for event handlers
-  const collectionsRef = useRef(collections);
   const activeIdRef = useRef(activeCollectionId);
-  collectionsRef.current = collections;
   activeIdRef.current = activeCollectionId;
 
-  // Persist collections on every change
+  // The saved active ID may point at a collection that no longer exists once storage has loaded
   useEffect(() => {
-    saveCollections(collections);
-  }, [collections]);
+    if (isLoaded && collections.length > 0 && !collections.some(c => c.id === activeCollectionId)) {
+      setActiveCollectionId(collections[0].id);
+    }
+  }, [isLoaded, collections, activeCollectionId]);
 
   useEffect(() => {
     saveActiveId(activeCollectionId);
   }, [activeCollectionId]);
 
+  useEffect(() => {
+    saveInkSettings(inkSettings);
+  }, [inkSettings]);
+
   // Save on page hide (critical for mobile PWAs where beforeunload may not fire)
   useEffect(() => {
     const persistState = () => {
-      saveCollections(collectionsRef.current);
       saveActiveId(activeIdRef.current);
     };
 
@@ -127,7 +178,19 @@ const App: React.FC = () => {
       .filter(item => activeCollection.selectedIds.includes(item.id));
   }, [activeCollection]);
 
-  const { getResult: getAiPrintData, isLoading: isAiLoading } = useAiCmyk(activeCollection?.colors || []);
+  const pressProfile = useMemo(() => getPressProfile(activeCollection?.pressProfileId), [activeCollection?.pressProfileId]);
+
+  const confusablePairs = useMemo(() => {
+    if (visionMode === 'normal') return [];
+    return findConfusablePairs(selectedColors.map(c => c.hex), visionMode);
+  }, [selectedColors, visionMode]);
+
+  const { getResult: getAiPrintData, isPending: isAiPending } = useAiCmyk(activeCollection?.colors || [], inkSettings, pressProfile);
+  const iccProfile = useIccProfile();
+  const { settings: aiSettings, saveSettings: saveAiSettings, isConfigured: isAiConfigured } = useAiSettings();
+  const spotLibraries = useSpotLibraries();
+  const imagePalette = useImagePalette();
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
 
   const handleCreateCollection = () => {
     if (!newCollectionName.trim()) return;
@@ -144,26 +207,34 @@ const App: React.FC = () => {
     setIsCreating(false);
   };
 
-  const handleAddColors = () => {
-    const lines = inputValue.split('\n')
-      .map(line => line.trim())
-      .filter(line => line !== '' && isValidHex(line));
+  // New colors go to the top of the collection, or right after `afterId`, and fill free selection slots
+  const addColors = (records: Omit<ColorRecord, 'id'>[], afterId?: string) => {
+    const newRecords: ColorRecord[] = records.map(record => ({
+      id: Math.random().toString(36).substring(7),
+      ...record
+    }));
 
-    if (lines.length > 0 && activeCollection) {
-      const newRecords: ColorRecord[] = lines.map(line => ({
-        id: Math.random().toString(36).substring(7),
-        hex: normalizeHex(line)
-      }));
+    setCollections(prev => prev.map(c => {
+      if (c.id !== activeCollectionId) return c;
+      const insertAt = afterId ? c.colors.findIndex(col => col.id === afterId) + 1 : 0;
+      const updatedColors = [...c.colors.slice(0, insertAt), ...newRecords, ...c.colors.slice(insertAt)];
+      let updatedSelected = [...c.selectedIds];
+      for (const record of newRecords) {
+        if (updatedSelected.length < MAX_SELECTED) updatedSelected.push(record.id);
+      }
+      return { ...c, colors: updatedColors, selectedIds: updatedSelected };
+    }));
+  };
 
-      setCollections(prev => prev.map(c => {
-        if (c.id !== activeCollectionId) return c;
-        const updatedColors = [...newRecords, ...c.colors];
-        let updatedSelected = [...c.selectedIds];
-        for (const record of newRecords) {
-          if (updatedSelected.length < 12) updatedSelected.push(record.id);
-        }
-        return { ...c, colors: updatedColors, selectedIds: updatedSelected };
-      }));
+  const handleAddColors = () => {
+    const parsed = parsedInput.filter(token => token.hex);
+
+    if (parsed.length > 0 && activeCollection) {
+      addColors(parsed.map(token => ({
+        hex: token.hex!,
+        ...(token.label && { name: token.label }),
+        ...(token.cmyk && { lockedCmyk: token.cmyk })
+      })));
       setInputValue('');
     }
   };
@@ -175,13 +246,14 @@ const App: React.FC = () => {
       if (isSelected) {
         return { ...c, selectedIds: c.selectedIds.filter(id => id !== colorId) };
       }
-      if (c.selectedIds.length >= 12) return c;
+      if (c.selectedIds.length >= MAX_SELECTED) return c;
       return { ...c, selectedIds: [...c.selectedIds, colorId] };
     }));
   };
 
   const removeColor = (e: React.MouseEvent, colorId: string) => {
     e.stopPropagation();
+    const removed = activeCollection?.colors.find(col => col.id === colorId);
     setCollections(prev => prev.map(c => {
       if (c.id !== activeCollectionId) return c;
       return {
@@ -189,16 +261,15 @@ const App: React.FC = () => {
         colors: c.colors.filter(col => col.id !== colorId),
         selectedIds: c.selectedIds.filter(id => id !== colorId)
       };
-    }));
+    }), `Removed ${removed ? getColorLabel(removed) : 'color'}`);
   };
 
   const deleteCollection = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (collections.length <= 1) return;
     const col = collections.find(c => c.id === id);
-    if (!confirm(`Delete "${col?.name}"? This cannot be undone.`)) return;
     const remaining = collections.filter(c => c.id !== id);
-    setCollections(remaining);
+    setCollections(remaining, `Deleted "${col?.name}"`);
     if (activeCollectionId === id) {
       setActiveCollectionId(remaining[0].id);
     }
@@ -215,6 +286,46 @@ const App: React.FC = () => {
     setEditingColId(null);
   };
 
+  const assignSpot = (colorId: string, spot: SpotAssignment | undefined) => {
+    setCollections(prev => prev.map(c => {
+      if (c.id !== activeCollectionId) return c;
+      return {
+        ...c,
+        colors: c.colors.map(col => (col.id === colorId ? { ...col, spot } : col))
+      };
+    }));
+  };
+
+  const updateColor = (colorId: string, patch: Partial<Omit<ColorRecord, 'id' | 'hex'>>) => {
+    setCollections(prev => prev.map(c => {
+      if (c.id !== activeCollectionId) return c;
+      return {
+        ...c,
+        colors: c.colors.map(col => (col.id === colorId ? { ...col, ...patch } : col))
+      };
+    }));
+  };
+
+  // Long-press on touch devices stands in for the context menu
+  const startLongPress = (colorId: string) => {
+    longPressRef.current.fired = false;
+    window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current.timer = window.setTimeout(() => {
+      longPressRef.current.fired = true;
+      setGeneratorColorId(colorId);
+    }, 500);
+  };
+
+  const cancelLongPress = () => {
+    window.clearTimeout(longPressRef.current.timer);
+  };
+
+  const setCollectionPressProfile = (pressProfileId: string) => {
+    setCollections(prev => prev.map(c =>
+      c.id === activeCollectionId ? { ...c, pressProfileId } : c
+    ));
+  };
+
   const handleDrop = (sourceId: string, targetId: string) => {
     if (!sourceId || sourceId === targetId) return;
     setCollections(prev => prev.map(c => {
@@ -239,11 +350,32 @@ const App: React.FC = () => {
     }
   };
 
-  const exportToPdf = () => {
+  const exportProofPdf = (page: PdfPageOptions) => {
+    if (selectedColors.length === 0 || !activeCollection) return;
+    const proofColors: ProofColor[] = selectedColors.map(color => {
+      const printData = getAiPrintData(color.hex, color.lockedCmyk);
+      const { c, m, y, k, total_ink } = printData.conversions.smart_print_recipe;
+      return {
+        hex: color.hex.toUpperCase(),
+        name: color.name,
+        recipe: { c, m, y, k },
+        label: printData.source === 'locked' ? 'Locked' : 'Smart',
+        totalInk: total_ink,
+        spot: color.spot ? `${formatSpotName(color.spot)} (${color.spot.libraryName})` : undefined,
+      };
+    });
+    buildProofPdf(proofColors, { title: activeCollection.name, pressName: pressProfile.name }, page)
+      .save(`${activeCollection.name}-proof.pdf`);
+  };
+
+  const exportToPdf = (mode: PdfSheetMode, page: PdfPageOptions) => {
+    if (mode === 'proof') {
+      exportProofPdf(page);
+      return;
+    }
     if (selectedColors.length === 0 || !activeCollection) return;
-    const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
-    const pageW = 297;
-    const pageH = 210;
+    const pdf = createPdf(page);
+    const { width: pageW, height: pageH } = pageDimensions(page);
     const cols = 3;
     const rows = Math.ceil(selectedColors.length / cols);
     const cellW = pageW / cols;
@@ -263,11 +395,18 @@ const App: React.FC = () => {
       pdf.setFillColor(r, g, b);
       pdf.rect(x, y, cellW, cellH, 'F');
 
-      // White text
-      pdf.setTextColor(255, 255, 255);
+      // Readable text
+      if (getContrastType(color.hex) === ContrastType.DARK) pdf.setTextColor(17, 24, 39);
+      else pdf.setTextColor(255, 255, 255);
       const cx = x + cellW / 2;
-      let ty = y + cellH * 0.2;
-      const lineGap = cellH * 0.1;
+      let ty = y + cellH * 0.15;
+      const lineGap = cellH * 0.09;
+
+      if (color.name) {
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(color.name.toUpperCase(), cx, ty - lineGap * 0.6, { align: 'center' });
+      }
 
       // Hex
       pdf.setFontSize(18);
@@ -281,21 +420,41 @@ const App: React.FC = () => {
       pdf.text(rgbStr, cx, ty, { align: 'center' });
       ty += lineGap;
 
+      // Perceptual readouts, two per line
+      pdf.setFontSize(7);
+      const readouts = getPerceptualReadouts(color.hex).map(r => `${r.label} ${r.value}`);
+      for (let j = 0; j < readouts.length; j += 2) {
+        pdf.text(readouts.slice(j, j + 2).join('   '), cx, ty, { align: 'center' });
+        ty += lineGap * 0.6;
+      }
+      ty += lineGap * 0.4;
+      pdf.setFontSize(10);
+
       // CMYK
-      const printData = getAiPrintData(color.hex);
+      const printData = getAiPrintData(color.hex, color.lockedCmyk);
       const auto = printData.conversions.standard_auto;
       const smart = printData.conversions.smart_print_recipe;
 
       pdf.text(`CMYK Auto: ${auto.c}, ${auto.m}, ${auto.y}, ${auto.k}`, cx, ty, { align: 'center' });
       ty += lineGap;
 
-      pdf.text(`Smart: ${smart.c}, ${smart.m}, ${smart.y}, ${smart.k}`, cx, ty, { align: 'center' });
+      const smartLabel = printData.source === 'locked' ? 'Locked' : 'Smart';
+      pdf.text(`${smartLabel}: ${smart.c}, ${smart.m}, ${smart.y}, ${smart.k}`, cx, ty, { align: 'center' });
+      ty += lineGap;
+
+      const tacNote = smart.tac_adjusted ? ` (capped at ${smart.tac_limit}%)` : smart.tac_exceeded ? ` (over ${smart.tac_limit}%)` : '';
+      pdf.text(`TAC: ${smart.total_ink}%${tacNote}`, cx, ty, { align: 'center' });
       ty += lineGap;
 
+      if (color.spot) {
+        pdf.text(`Spot: ${formatSpotName(color.spot)} (${color.spot.libraryName})`, cx, ty, { align: 'center' });
+        ty += lineGap;
+      }
+
       // Insight (wrap to fit cell)
       pdf.setFontSize(7);
       pdf.setFont('helvetica', 'normal');
-      const insight = smart.modifications_made;
+      const insight = [smart.modifications_made, color.tags?.join(', '), color.notes].filter(Boolean).join('\n');
       const lines = pdf.splitTextToSize(insight, cellW - 10);
       pdf.text(lines, cx, ty, { align: 'center' });
     });
@@ -305,71 +464,270 @@ const App: React.FC = () => {
 
   const handleExportPalettes = () => {
     const data = JSON.stringify(collections, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'hexviewer-palettes.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([data], { type: 'application/json' }), 'hexviewer-palettes.json');
+  };
+
+  // Each collection becomes a swatch group; CMYK swatches carry the smart recipe for its press.
+  // Spot swatches are the assigned ink itself: its name, its color and its published build.
+  const buildSwatchGroups = (): SwatchGroup[] => collections.map(c => {
+    const press = getPressProfile(c.pressProfileId);
+    return {
+      name: c.name,
+      swatches: c.colors.map(record => {
+        if (record.spot) {
+          const { spot } = record;
+          const cmyk = spot.cmyk ?? resolvePrintConversion(spot.hex, inkSettings, press).conversions.smart_print_recipe;
+          return {
+            name: formatSpotName(spot),
+            hex: spot.hex,
+            cmyk: { c: cmyk.c, m: cmyk.m, y: cmyk.y, k: cmyk.k },
+            spot: true,
+          };
+        }
+        const smart = resolvePrintConversion(record.hex, inkSettings, press, record.lockedCmyk).conversions.smart_print_recipe;
+        return {
+          name: getColorLabel(record),
+          hex: record.hex,
+          cmyk: { c: smart.c, m: smart.m, y: smart.y, k: smart.k },
+          spot: false,
+        };
+      }),
+    };
+  });
+
+  const handleExportSwatches = (format: 'ase' | 'aco', model: SwatchModel) => {
+    const groups = buildSwatchGroups();
+    const blob = format === 'ase' ? writeAse(groups, model) : writeAco(groups.flatMap(g => g.swatches), model);
+    downloadBlob(blob, `hexviewer-palettes-${model}.${format}`);
+  };
+
+  const importSwatchGroups = (groups: SwatchGroup[], fileName: string) => {
+    if (groups.length === 0) {
+      alert('No colors found in swatch file.');
+      return;
+    }
+    const imported: Collection[] = groups.map(group => {
+      const colors: ColorRecord[] = group.swatches.map(swatch => ({
+        id: Math.random().toString(36).substring(7),
+        hex: swatch.hex,
+        ...(swatch.name && swatch.name !== swatch.hex && !swatch.spot && { name: swatch.name }),
+        ...(swatch.cmyk && { lockedCmyk: swatch.cmyk }),
+        ...(swatch.spot && {
+          spot: {
+            libraryId: 'swatch-file', libraryName: fileName, code: swatch.name, hex: swatch.hex,
+            ...(swatch.cmyk && { cmyk: swatch.cmyk }),
+          },
+        }),
+      }));
+      return {
+        id: Math.random().toString(36).substring(7),
+        name: group.name,
+        colors,
+        selectedIds: colors.slice(0, MAX_SELECTED).map(c => c.id),
+      };
+    });
+    setPendingImport({ fileName, collections: imported, issues: [] });
+  };
+
+  const handleConfirmImport = (plan: ImportPlanItem[]) => {
+    if (!pendingImport) return;
+    const { collections: next, firstId } = applyImport(collections, plan);
+    const count = plan.filter(item => item.action !== 'skip').length;
+    setCollections(next, `Imported ${count} collection${count === 1 ? '' : 's'} from ${pendingImport.fileName}`);
+    if (firstId) setActiveCollectionId(firstId);
+    setPendingImport(null);
+  };
+
+  const importPaletteFile = (file: File) => {
+    const reader = new FileReader();
+    if (/\.(ase|aco)$/i.test(file.name)) {
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      reader.onload = (ev) => {
+        try {
+          importSwatchGroups(parseSwatchFile(ev.target?.result as ArrayBuffer, baseName), baseName);
+        } catch (err) {
+          alert(`Could not read swatch file: ${err instanceof Error ? err.message : err}`);
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+    reader.onload = (ev) => {
+      try {
+        const { collections: incoming, issues } = validateCollections(JSON.parse(ev.target?.result as string));
+        if (incoming.length > 0) {
+          setPendingImport({ fileName: file.name, collections: incoming, issues });
+        } else {
+          alert(`Invalid palette file format.\n\n${issues.slice(0, 5).join('\n')}`);
+        }
+      } catch {
+        alert('Could not read file. Make sure it is a valid palette JSON.');
+      }
+    };
+    reader.readAsText(file);
   };
 
   const handleImportPalettes = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.ase,.aco';
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        try {
-          const parsed = JSON.parse(ev.target?.result as string);
-          if (Array.isArray(parsed) && parsed.length > 0 && parsed[0].id && parsed[0].name && parsed[0].colors) {
-            setCollections(parsed);
-            setActiveCollectionId(parsed[0].id);
-          } else {
-            alert('Invalid palette file format.');
-          }
-        } catch {
-          alert('Could not read file. Make sure it is a valid palette JSON.');
+      if (file) importPaletteFile(file);
+    };
+    input.click();
+  };
+
+  const openShareLink = (payload: string) => {
+    try {
+      const { collections: incoming, issues } = validateCollections(decodeCollection(payload));
+      if (incoming.length > 0) setPendingImport({ fileName: 'Shared link', collections: incoming, issues });
+    } catch {
+      alert('This share link is damaged or was made by a newer version of HexViewer.');
+    }
+  };
+
+  // Share links and content shared from other apps wait for storage so the import dialog sees real collections
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const handleHash = () => {
+      const payload = findSharePayload(window.location.hash);
+      if (!payload) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      openShareLink(payload);
+    };
+    handleHash();
+    window.addEventListener('hashchange', handleHash);
+
+    if (new URLSearchParams(window.location.search).has('shared')) {
+      window.history.replaceState(null, '', window.location.pathname);
+      takeSharedContent().then(({ text, file }) => {
+        if (file) {
+          importPaletteFile(file);
+        } else if (text) {
+          const payload = findSharePayload(text);
+          if (payload) openShareLink(payload);
+          else setInputValue(text);
         }
-      };
-      reader.readAsText(file);
+      }).catch(e => console.warn('Failed to read shared content:', e));
+    }
+
+    return () => window.removeEventListener('hashchange', handleHash);
+  }, [isLoaded]);
+
+  const handleShareCollection = async () => {
+    if (!activeCollection) return;
+    const url = buildShareUrl(activeCollection);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: activeCollection.name, text: `${activeCollection.name} — HexViewer palette`, url });
+        return;
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+      }
+    }
+    handleCopy(url, 'share-link');
+  };
+
+  const handlePickImage = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) imagePalette.loadImage(file);
+    };
+    input.click();
+  };
+
+  const handleImporterDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) imagePalette.loadImage(file);
+  };
+
+  const handleUploadProfile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.icc,.icm';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) iccProfile.uploadProfile(file);
     };
     input.click();
   };
 
-  const hasValidInput = useMemo(() => {
-    return inputValue.split('\n').some(line => isValidHex(line.trim()));
-  }, [inputValue]);
+  const hasValidInput = parsedInput.some(token => token.hex);
+
+  // Avoid flashing the default palette while stored collections are read
+  if (!isLoaded) {
+    return <div className="min-h-screen bg-gray-950" />;
+  }
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-950 text-white selection:bg-indigo-500/30">
-      
+      {saveError && (
+        <div className="sticky top-0 z-50 flex items-center gap-3 bg-red-950/95 border-b border-red-500/30 px-4 py-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-red-300">Not saved</span>
+          <span className="text-xs font-bold text-red-100 flex-1 min-w-0">{saveError}</span>
+          <button
+            onClick={retrySave}
+            className="bg-red-500/20 hover:bg-red-500/30 px-4 py-1.5 rounded-full text-[10px] font-black tracking-widest uppercase text-red-100"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Earlier builds asked Gemini without any setup; say why recipes are now heuristic until a provider is chosen */}
+      {!isAiConfigured && (
+        <div className="flex items-center gap-3 bg-indigo-950/95 border-b border-indigo-500/30 px-4 py-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-indigo-300">AI recipes off</span>
+          <span className="text-xs font-bold text-indigo-100 flex-1 min-w-0">
+            Smart print recipes use the built-in heuristic until you choose an AI provider.
+          </span>
+          <button
+            onClick={() => setShowAiSettings(true)}
+            className="bg-indigo-500/20 hover:bg-indigo-500/30 px-4 py-1.5 rounded-full text-[10px] font-black tracking-widest uppercase text-indigo-100"
+          >
+            Choose provider
+          </button>
+          <button
+            onClick={() => saveAiSettings(aiSettings)}
+            title="Keep AI off and hide this notice"
+            className="p-1.5 bg-white/5 hover:bg-white/10 rounded-full text-indigo-200"
+          >
+            <XIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {/* 1. Palette Preview Area (Hero) */}
-      <section className="w-full shadow-2xl relative border-b border-white/5 shrink-0">
-        {isAiLoading && selectedColors.length > 0 && (
-          <div className="absolute top-3 right-4 z-50 flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full">
-            <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse" />
-            <span className="text-[9px] font-bold uppercase tracking-widest text-indigo-300">AI analyzing...</span>
-          </div>
-        )}
+      <VisionFilters />
+
+      <section className="w-full shadow-2xl relative border-b border-white/5 shrink-0" style={visionFilterStyle(visionMode)}>
         {selectedColors.length > 0 ? (
           <div className="grid grid-cols-3">
           {selectedColors.map((color) => {
             const rgbValue = hexToRgbString(color.hex);
-            const printData = getAiPrintData(color.hex);
+            const printData = getAiPrintData(color.hex, color.lockedCmyk);
             const smart = printData.conversions.smart_print_recipe;
             const auto = printData.conversions.standard_auto;
             const source = (printData as any).source;
+            const proof = getSoftProof(color.hex, smart, pressProfile);
+            const textClass = getContrastType(color.hex) === ContrastType.DARK ? 'text-gray-900' : 'text-white';
 
             return (
               <div
                 key={color.id}
-                className="flex flex-col items-center justify-center transition-all duration-500 ease-in-out py-8 px-4 text-center group relative text-white"
+                className={`flex flex-col items-center justify-center transition-all duration-500 ease-in-out py-8 px-4 text-center group relative ${textClass}`}
                 style={{ backgroundColor: color.hex }}
               >
+                {color.name && (
+                  <span className="mb-1 text-xs md:text-sm font-black uppercase tracking-widest opacity-80">{color.name}</span>
+                )}
                 <span className="font-mono font-black text-2xl md:text-4xl drop-shadow-sm tracking-tight">
                   {color.hex}
                 </span>
@@ -378,20 +736,61 @@ const App: React.FC = () => {
                   {rgbValue}
                 </div>
 
+                <div className="mt-1 font-mono text-[10px] md:text-xs font-bold opacity-80 leading-relaxed">
+                  {getPerceptualReadouts(color.hex).map(r => (
+                    <div key={r.label}>{r.label}: {r.value}</div>
+                  ))}
+                </div>
+
                 <div className="mt-2 font-mono text-sm md:text-base font-bold">
                   CMYK Auto: {auto.c}, {auto.m}, {auto.y}, {auto.k}
                 </div>
 
-                <div className="mt-1 font-mono text-sm md:text-base font-bold">
-                  Smart: {smart.c}, {smart.m}, {smart.y}, {smart.k}
+                <div className="mt-1 font-mono text-sm md:text-base font-bold flex items-center justify-center gap-1">
+                  {source === 'locked' && <LockIcon className="w-3.5 h-3.5" />}
+                  {source === 'locked' ? 'Locked' : 'Smart'}: {smart.c}, {smart.m}, {smart.y}, {smart.k}
+                </div>
+
+                <div className="mt-1 font-mono text-xs md:text-sm font-bold opacity-80" title={`Total area coverage, limit ${smart.tac_limit}%`}>
+                  TAC: {smart.total_ink}%{smart.tac_adjusted && ' (capped)'}{smart.tac_exceeded && ` (over ${smart.tac_limit}%)`}
+                </div>
+
+                <div className="mt-3 flex flex-col items-center gap-1" title={`Estimated print on ${pressProfile.paperType.toLowerCase()}: ${proof.printHex}`}>
+                  <div className="flex rounded-lg overflow-hidden ring-1 ring-white/40 shadow-lg">
+                    <div className="w-12 h-7" style={{ backgroundColor: proof.screenHex }} />
+                    <div className="w-12 h-7" style={{ backgroundColor: proof.printHex }} />
+                  </div>
+                  <span className="text-[8px] font-bold uppercase tracking-widest opacity-70">Screen | Print</span>
                 </div>
 
+                {proof.severity !== 'match' && (
+                  <div className={`mt-1 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest ${
+                    proof.severity === 'out-of-gamut' ? 'bg-black/40 text-amber-300' : 'bg-black/20'
+                  }`}>
+                    {proof.severity === 'out-of-gamut' ? 'Out of gamut' : 'Shifts in print'} · ΔE {proof.deltaE.toFixed(1)}
+                  </div>
+                )}
+
                 <p className="mt-4 text-xs md:text-sm font-bold leading-snug max-w-[220px]">
                   {smart.modifications_made}
                 </p>
 
+                {isAiPending(color.hex, color.lockedCmyk) && (
+                  <span className="mt-2 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-black/30 text-[8px] font-bold text-indigo-200 uppercase tracking-widest">
+                    <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-pulse" />
+                    AI analyzing...
+                  </span>
+                )}
                 {source === 'ai' && (
-                  <span className="mt-2 text-[8px] font-bold text-white/50 uppercase tracking-widest">AI-optimized</span>
+                  <span className="mt-2 text-[8px] font-bold opacity-50 uppercase tracking-widest">AI-optimized</span>
+                )}
+                {source === 'ai-rejected' && (
+                  <span className="mt-2 px-2 py-0.5 rounded-full bg-black/30 text-[8px] font-black text-amber-300 uppercase tracking-widest">
+                    AI answer rejected
+                  </span>
+                )}
+                {color.tags && (
+                  <span className="mt-2 text-[8px] font-bold opacity-60 uppercase tracking-widest">{color.tags.join(' · ')}</span>
                 )}
 
                 <div className="absolute bottom-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -415,19 +814,92 @@ const App: React.FC = () => {
       </section>
 
       <div className="w-full flex justify-center items-center gap-3 py-3 bg-gray-950 border-b border-white/5 flex-wrap">
+        <div className="flex gap-1">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl/Cmd+Z)"
+            className="p-2 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-full border border-white/10"
+          >
+            <UndoIcon className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Ctrl/Cmd+Shift+Z)"
+            className="p-2 bg-white/5 hover:bg-white/10 disabled:opacity-30 rounded-full border border-white/10"
+          >
+            <RedoIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
         <span className="bg-white/5 backdrop-blur-md px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10">
-          {activeCollection?.name} • {selectedColors.length} / 12 Selected
+          {activeCollection?.name} • {selectedColors.length} / {MAX_SELECTED} Selected
         </span>
+        <select
+          value={pressProfile.id}
+          onChange={(e) => setCollectionPressProfile(e.target.value)}
+          title="Press and paper for this collection"
+          className="bg-white/5 border border-white/10 rounded-full px-4 py-1.5 text-xs font-bold tracking-widest uppercase text-gray-300 focus:outline-none"
+        >
+          {PRESS_PROFILES.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
         {selectedColors.length > 0 && (
           <button
-            onClick={exportToPdf}
-            disabled={isAiLoading}
+            onClick={() => setShowPdfExport(true)}
+            disabled={selectedColors.some(c => isAiPending(c.hex, c.lockedCmyk))}
             className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/10 disabled:text-gray-500 px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95"
           >
             <DownloadIcon className="w-3.5 h-3.5" />
             Export PDF
           </button>
         )}
+        {selectedColors.length > 0 && (
+          <button
+            onClick={() => setShowContrast(true)}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95 border border-white/10"
+          >
+            Contrast
+          </button>
+        )}
+        {activeCollection && activeCollection.colors.length > 0 && (
+          <button
+            onClick={() => setShowExport(true)}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95 border border-white/10"
+          >
+            Tokens
+          </button>
+        )}
+        {activeCollection && activeCollection.colors.length > 0 && (
+          <button
+            onClick={handleShareCollection}
+            title="Share this collection as a link"
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95 border border-white/10"
+          >
+            {copiedId === 'share-link' ? <CheckIcon className="w-3.5 h-3.5" /> : <ShareIcon className="w-3.5 h-3.5" />}
+            {copiedId === 'share-link' ? 'Link Copied' : 'Share'}
+          </button>
+        )}
+        <button
+          onClick={() => setShowAiSettings(true)}
+          title="Choose where smart print recipes come from"
+          className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95 border border-white/10"
+        >
+          AI: {getProviderInfo(aiSettings.provider).name}
+        </button>
+        <select
+          value={visionMode}
+          onChange={(e) => setVisionMode(e.target.value as VisionMode)}
+          title="Simulate color vision deficiency"
+          className={`border rounded-full px-4 py-1.5 text-xs font-bold tracking-widest uppercase focus:outline-none ${
+            visionMode === 'normal' ? 'bg-white/5 border-white/10 text-gray-300' : 'bg-amber-500/20 border-amber-500/40 text-amber-200'
+          }`}
+        >
+          {VISION_MODES.map(m => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
         <button
           onClick={handleExportPalettes}
           className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95"
@@ -435,6 +907,21 @@ const App: React.FC = () => {
           <SaveIcon className="w-3.5 h-3.5" />
           Save Palettes
         </button>
+        <select
+          value=""
+          onChange={(e) => {
+            const [format, model] = e.target.value.split(':') as ['ase' | 'aco', SwatchModel];
+            if (format) handleExportSwatches(format, model);
+          }}
+          title="Export Adobe swatches"
+          className="bg-white/5 border border-white/10 rounded-full px-4 py-1.5 text-xs font-bold tracking-widest uppercase text-gray-300 focus:outline-none"
+        >
+          <option value="">Adobe Swatches…</option>
+          <option value="ase:cmyk">ASE · Smart CMYK</option>
+          <option value="ase:rgb">ASE · RGB</option>
+          <option value="aco:cmyk">ACO · Smart CMYK</option>
+          <option value="aco:rgb">ACO · RGB</option>
+        </select>
         <button
           onClick={handleImportPalettes}
           className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-xs font-bold tracking-widest uppercase transition-all active:scale-95 border border-white/10"
@@ -444,6 +931,80 @@ const App: React.FC = () => {
         </button>
       </div>
 
+      {visionMode !== 'normal' && selectedColors.length > 1 && (
+        <div className="w-full flex justify-center items-center gap-2 py-2 bg-amber-500/5 border-b border-amber-500/10 flex-wrap px-4">
+          <span className="text-[9px] text-amber-300 font-black uppercase tracking-widest">
+            {confusablePairs.length ? `Hard to tell apart (${VISION_MODES.find(m => m.id === visionMode)?.name})` : 'All selected colors stay distinguishable'}
+          </span>
+          {confusablePairs.map(pair => (
+            <span key={`${pair.a}-${pair.b}`} className="flex items-center gap-1 bg-black/30 px-2 py-1 rounded-full" title={`ΔE00 ${pair.originalDeltaE.toFixed(1)} for normal vision`}>
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: pair.a }} />
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: pair.b }} />
+              <span className="font-mono text-[9px] font-bold text-amber-100">ΔE {pair.deltaE.toFixed(1)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="w-full flex justify-center items-center gap-2 py-2 bg-gray-950 border-b border-white/5 flex-wrap">
+        <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Output Profile</span>
+        <select
+          value={iccProfile.profileId}
+          onChange={(e) => iccProfile.setProfileId(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-300 focus:outline-none"
+        >
+          {iccProfile.presets.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+          {iccProfile.customName && (
+            <option value={CUSTOM_PROFILE_ID}>{iccProfile.customName}</option>
+          )}
+        </select>
+        <select
+          value={iccProfile.intent}
+          onChange={(e) => iccProfile.setIntent(e.target.value as RenderingIntent)}
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-300 focus:outline-none"
+        >
+          {RENDERING_INTENTS.map(i => (
+            <option key={i.id} value={i.id}>{i.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleUploadProfile}
+          className="bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-3 py-1 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all border border-white/10"
+        >
+          Load .icc
+        </button>
+        <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest ml-2">Ink Limit</span>
+        <select
+          value={inkSettings.tacLimit}
+          onChange={(e) => setInkSettings(prev => ({ ...prev, tacLimit: clampTacLimit(Number(e.target.value)) }))}
+          title="Shop-wide ink limit; a stricter press profile lowers it"
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-300 focus:outline-none"
+        >
+          {Array.from({ length: (TAC_MAX - TAC_MIN) / 10 + 1 }, (_, i) => TAC_MIN + i * 10).map(limit => (
+            <option key={limit} value={limit}>{limit}%</option>
+          ))}
+        </select>
+        <select
+          value={inkSettings.blackGeneration}
+          onChange={(e) => setInkSettings(prev => ({ ...prev, blackGeneration: e.target.value as BlackGeneration }))}
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-300 focus:outline-none"
+        >
+          {BLACK_GENERATION_OPTIONS.map(o => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+        </select>
+        {iccProfile.status === 'loading' && (
+          <span className="text-[9px] font-bold uppercase tracking-widest text-indigo-300">Loading profile...</span>
+        )}
+        {iccProfile.status === 'error' && (
+          <span className="text-[9px] font-bold uppercase tracking-widest text-red-400" title={iccProfile.error || undefined}>
+            Profile unavailable, using basic math
+          </span>
+        )}
+      </div>
+
       {/* 2. Collections Tabs (Sticky) */}
       <nav className="sticky top-0 z-40 bg-gray-950/80 backdrop-blur-xl border-b border-white/5 px-6 overflow-x-auto no-scrollbar flex items-center gap-2 py-4 shadow-xl">
         {collections.map(col => (
@@ -513,12 +1074,29 @@ const App: React.FC = () => {
         <div className="max-w-2xl mx-auto space-y-12 pb-32">
           
           {/* Importer Section */}
-          <div className="bg-white/[0.03] rounded-[2.5rem] p-8 border border-white/10 shadow-2xl relative overflow-hidden group">
+          <div
+            className={`bg-white/[0.03] rounded-[2.5rem] p-8 border shadow-2xl relative overflow-hidden group transition-colors ${
+              isDraggingFile ? 'border-indigo-500/60' : 'border-white/10'
+            }`}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={handleImporterDrop}
+          >
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">
                 Add to {activeCollection?.name}
               </h2>
-              <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Multi-line support</span>
+              <button
+                onClick={handlePickImage}
+                className="text-[9px] text-gray-600 hover:text-indigo-300 font-bold uppercase tracking-widest"
+                title="Or drop a photo or logo here"
+              >
+                From Image
+              </button>
             </div>
             
             <div className="flex flex-col gap-4">
@@ -529,12 +1107,50 @@ const App: React.FC = () => {
                   className={`w-full bg-white/[0.05] border-2 rounded-3xl py-4 px-6 font-mono font-bold focus:outline-none transition-all resize-none h-36 scrollbar-hide no-scrollbar ${
                     hasValidInput || inputValue === '' ? 'border-white/5 focus:border-indigo-500/50' : 'border-red-500/30'
                   }`}
-                  placeholder="#6366F1&#10;#F43F5E&#10;#10B981"
+                  placeholder="#6366F1&#10;rgb(244 63 94)&#10;hsl(160 84% 39%), teal&#10;cmyk(100, 0, 60, 10)"
                 />
                 <div className="absolute top-4 right-6 text-[9px] text-gray-700 font-black uppercase tracking-widest pointer-events-none group-focus-within:opacity-0 transition-opacity">
-                  Paste Hex Codes
+                  Paste Colors
                 </div>
               </div>
+              {parsedInput.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto no-scrollbar space-y-1">
+                  {parsedInput.map((token, i) => (
+                    <li key={i} className="flex items-center gap-3 px-2 text-[10px] font-bold">
+                      <span className="w-6 text-right text-gray-700 font-mono">{token.line}</span>
+                      <span
+                        className={`w-4 h-4 rounded-md shrink-0 ring-1 ${token.hex ? 'ring-white/20' : 'ring-red-500/40'}`}
+                        style={{ backgroundColor: token.hex }}
+                      />
+                      <span className="font-mono text-gray-400 truncate">{token.input}</span>
+                      {token.label && <span className="text-gray-200 truncate">{token.label}</span>}
+                      {token.hex ? (
+                        <span className="ml-auto shrink-0 font-mono text-gray-300">
+                          {token.hex}
+                          {token.cmyk && <span className="text-indigo-300"> · {token.cmyk.c}/{token.cmyk.m}/{token.cmyk.y}/{token.cmyk.k}</span>}
+                          {token.note && <span className="text-gray-600"> · {token.note}</span>}
+                        </span>
+                      ) : (
+                        <span className="ml-auto shrink-0 text-red-400/80">{token.error}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <ImagePalettePreview
+                fileName={imagePalette.fileName}
+                previewUrl={imagePalette.previewUrl}
+                colors={imagePalette.colors}
+                options={imagePalette.options}
+                status={imagePalette.status}
+                error={imagePalette.error}
+                onOptionsChange={imagePalette.setOptions}
+                onAccept={(hexes) => {
+                  addColors(hexes.map(hex => ({ hex })));
+                  imagePalette.clear();
+                }}
+                onClear={imagePalette.clear}
+              />
               <button
                 onClick={handleAddColors}
                 disabled={!hasValidInput}
@@ -550,15 +1166,15 @@ const App: React.FC = () => {
           <div>
             <div className="flex justify-between items-end mb-6 px-4">
               <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-gray-500">{activeCollection?.name} Library</h2>
-              <span className="text-[9px] text-gray-600 font-bold uppercase tracking-wider">
+              <span className="text-[9px] text-gray-600 font-bold uppercase tracking-wider" title="Right-click or long-press a color to generate harmonies and scales">
                 {activeCollection?.colors.length || 0} Total
               </span>
             </div>
             
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-3 gap-4" style={visionFilterStyle(visionMode)}>
               {activeCollection?.colors.map((item) => {
                 const isSelected = activeCollection.selectedIds.includes(item.id);
-                const printData = getAiPrintData(item.hex);
+                const printData = getAiPrintData(item.hex, item.lockedCmyk);
                 const smart = printData.conversions.smart_print_recipe;
 
                 return (
@@ -570,7 +1186,17 @@ const App: React.FC = () => {
                     onDragLeave={() => setDragOverId(null)}
                     onDrop={(e) => { e.preventDefault(); handleDrop(e.dataTransfer.getData('text/plain'), item.id); }}
                     onDragEnd={() => { setDragId(null); setDragOverId(null); }}
-                    onClick={() => toggleSelection(item.id)}
+                    onClick={() => {
+                      if (longPressRef.current.fired) {
+                        longPressRef.current.fired = false;
+                        return;
+                      }
+                      toggleSelection(item.id);
+                    }}
+                    onContextMenu={(e) => { e.preventDefault(); setGeneratorColorId(item.id); }}
+                    onTouchStart={() => startLongPress(item.id)}
+                    onTouchEnd={cancelLongPress}
+                    onTouchMove={cancelLongPress}
                     className={`group relative aspect-square rounded-[2rem] cursor-grab active:cursor-grabbing transition-all duration-500 overflow-hidden ring-offset-8 ring-offset-gray-950 ${
                       isSelected ? 'ring-2 ring-indigo-500 scale-[0.96] shadow-2xl shadow-indigo-500/20' : 'hover:scale-[1.03]'
                     } ${dragOverId === item.id && dragId !== item.id ? 'ring-2 ring-indigo-400 scale-[1.05]' : ''} ${dragId === item.id ? 'opacity-40' : ''}`}
@@ -592,15 +1218,36 @@ const App: React.FC = () => {
 
                     <div className="absolute bottom-0 inset-x-0 bg-black/60 backdrop-blur-md p-4 flex flex-col transform translate-y-1 group-hover:translate-y-0 transition-transform">
                       <div className="flex justify-between items-center">
-                        <span className="text-[11px] font-mono font-black tracking-tight">{item.hex}</span>
+                        <span className="text-[11px] font-mono font-black tracking-tight flex items-center gap-1">
+                          {item.lockedCmyk && <LockIcon className="w-3 h-3 text-amber-300" />}
+                          {item.hex}
+                        </span>
                         <div className="flex gap-2">
+                          <button onClick={(e) => { e.stopPropagation(); setEditColorId(item.id); }} title="Edit name, tags, notes and CMYK lock">
+                            <PencilIcon className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={(e) => { e.stopPropagation(); setSpotColorId(item.id); }} title="Match spot color">
+                            <SwatchIcon className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={(e) => { e.stopPropagation(); setRingAroundColorId(item.id); }} title="Ring-around chart to dial in the CMYK build">
+                            <GridIcon className="w-3.5 h-3.5" />
+                          </button>
                           <button onClick={(e) => { e.stopPropagation(); handleCopy(item.hex, `lib-${item.id}`); }}>
                             {copiedId === `lib-${item.id}` ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-3.5 h-3.5" />}
                           </button>
                         </div>
                       </div>
+                      {item.name && (
+                        <span className="mt-1 text-[10px] font-black truncate" title={item.notes}>{item.name}</span>
+                      )}
+                      {item.spot && (
+                        <span className="mt-1 text-[9px] font-bold text-amber-300 truncate" title={`${formatSpotName(item.spot)} · ${item.spot.libraryName}`}>
+                          {formatSpotName(item.spot)}
+                        </span>
+                      )}
                       <div className="mt-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                         <span className="text-[8px] font-bold text-indigo-400">CMYK: {smart.c},{smart.m},{smart.y},{smart.k}</span>
+                        <span className={`text-[8px] font-bold ${smart.tac_adjusted || smart.tac_exceeded ? 'text-amber-400' : 'text-gray-400'}`}>TAC {smart.total_ink}%</span>
                       </div>
                     </div>
                   </div>
@@ -617,34 +1264,119 @@ const App: React.FC = () => {
           </div>
         </div>
       </main>
+
+      {showContrast && (
+        <ContrastMatrix
+          hexes={selectedColors.map(c => c.hex)}
+          visionMode={visionMode}
+          onClose={() => setShowContrast(false)}
+        />
+      )}
+
+      {showAiSettings && (
+        <AiSettingsPanel
+          settings={aiSettings}
+          onSave={saveAiSettings}
+          onManageCache={() => { setShowAiSettings(false); setShowAiCache(true); }}
+          onClose={() => setShowAiSettings(false)}
+        />
+      )}
+
+      {showPdfExport && (
+        <PdfExportDialog colorCount={selectedColors.length} onExport={exportToPdf} onClose={() => setShowPdfExport(false)} />
+      )}
+
+      {showAiCache && (
+        <AiCachePanel settings={aiSettings} ink={inkSettings} onClose={() => setShowAiCache(false)} />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          existing={collections}
+          incoming={pendingImport.collections}
+          issues={pendingImport.issues}
+          onConfirm={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {showExport && activeCollection && (
+        <ExportPanel
+          collection={activeCollection}
+          ink={inkSettings}
+          profileVersion={iccProfile.version}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {editColorId && activeCollection?.colors.some(c => c.id === editColorId) && (() => {
+        const color = activeCollection.colors.find(c => c.id === editColorId)!;
+        const computed = resolvePrintConversion(color.hex, inkSettings, pressProfile).conversions.smart_print_recipe;
+        return (
+          <ColorEditPanel
+            color={color}
+            computedCmyk={{ c: computed.c, m: computed.m, y: computed.y, k: computed.k }}
+            tacLimit={computed.tac_limit}
+            onSave={(patch) => updateColor(color.id, patch)}
+            onClose={() => setEditColorId(null)}
+          />
+        );
+      })()}
+
+      {generatorColorId && activeCollection?.colors.some(c => c.id === generatorColorId) && (
+        <PaletteGenerator
+          color={activeCollection.colors.find(c => c.id === generatorColorId)!}
+          existingHexes={activeCollection.colors.map(c => c.hex)}
+          ink={inkSettings}
+          press={pressProfile}
+          onAdd={(records) => addColors(records, generatorColorId)}
+          onClose={() => setGeneratorColorId(null)}
+        />
+      )}
+
+      {ringAroundColorId && activeCollection?.colors.some(c => c.id === ringAroundColorId) && (() => {
+        const color = activeCollection.colors.find(c => c.id === ringAroundColorId)!;
+        const { c, m, y, k, tac_limit } = getAiPrintData(color.hex, color.lockedCmyk).conversions.smart_print_recipe;
+        return (
+          <RingAroundPanel
+            color={color}
+            baseCmyk={{ c, m, y, k }}
+            press={pressProfile}
+            tacLimit={tac_limit}
+            onLock={(cmyk) => updateColor(color.id, { lockedCmyk: cmyk })}
+            onClose={() => setRingAroundColorId(null)}
+          />
+        );
+      })()}
+
+      {spotColorId && activeCollection?.colors.some(c => c.id === spotColorId) && (
+        <SpotMatchPanel
+          color={activeCollection.colors.find(c => c.id === spotColorId)!}
+          libraries={spotLibraries.libraries}
+          error={spotLibraries.error}
+          onAssign={(spot) => assignSpot(spotColorId, spot)}
+          onLoadLibrary={spotLibraries.addLibraryFile}
+          onRemoveLibrary={spotLibraries.removeLibrary}
+          onClose={() => setSpotColorId(null)}
+        />
+      )}
+      {undoToast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 border border-white/10 shadow-2xl rounded-full pl-5 pr-2 py-2 safe-bottom">
+          <span className="text-xs font-bold text-gray-300">{undoToast.label}</span>
+          <button
+            onClick={undo}
+            className="bg-indigo-600 hover:bg-indigo-500 px-4 py-1.5 rounded-full text-[10px] font-black tracking-widest uppercase"
+          >
+            Undo
+          </button>
+          <button onClick={dismissToast} className="p-1.5 text-gray-500 hover:text-white">
+            <XIcon className="w-3 h-3" />
+          </button>
+        </div>
+      )}
     </div>
   );
 };
 
-// SVG Icons
-const PrintIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
-);
-const PlusIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 4v16m8-8H4" /></svg>
-);
-const CopyIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
-);
-const CheckIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
-);
-const XIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
-);
-const DownloadIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-);
-const SaveIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
-);
-const UploadIcon = ({ className }: { className?: string }) => (
-  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-);
-
 export default App;
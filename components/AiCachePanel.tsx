@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { InkSettings } from '../types';
+import {
+  CACHE_TTL_DAYS, formatRecipe, getRerunSettings, isAbortError, MAX_CACHE_ENTRIES, removeAiCacheEntries, rerunAiCacheEntry,
+  setAiCachePinned,
+} from '../utils/aiColorService';
+import { AiSettings, getProviderInfo } from '../utils/aiProviders';
+import { getPressProfile } from '../utils/pressProfiles';
+import { BLACK_GENERATION_OPTIONS } from '../utils/inkCoverage';
+import { useAiCache } from '../hooks/useAiCache';
+import { PinIcon, RefreshIcon, XIcon } from './Icons';
+
+interface AiCachePanelProps {
+  settings: AiSettings;
+  ink: InkSettings;
+  onClose: () => void;
+}
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+export const AiCachePanel: React.FC<AiCachePanelProps> = ({ settings, ink, onClose }) => {
+  const { entries, isLoaded } = useAiCache();
+  const [filter, setFilter] = useState('');
+  const [rerunning, setRerunning] = useState<string[]>([]);
+  const [failed, setFailed] = useState<string[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Closing the panel cancels re-runs still in flight
+  useEffect(() => () => controllersRef.current.forEach(controller => controller.abort()), []);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter(e => [e.hex, e.model, e.endpoint, getProviderInfo(e.provider).name, getPressProfile(e.pressId).name]
+      .some(field => field.toLowerCase().includes(query)));
+  }, [entries, filter]);
+
+  const unpinnedKeys = entries.filter(e => !e.pinned).map(e => e.key);
+
+  const handleRerun = async (key: string) => {
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    setRerunning(prev => [...prev, key]);
+    setFailed(prev => prev.filter(k => k !== key));
+    try {
+      const result = await rerunAiCacheEntry(key, ink, controller.signal);
+      if (!result || result.source === 'heuristic') setFailed(prev => [...prev, key]);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.warn('AI cache re-run failed:', err);
+      setFailed(prev => [...prev, key]);
+    } finally {
+      controllersRef.current.delete(key);
+      if (!controller.signal.aborted) setRerunning(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">AI Cache</h2>
+            <span className="font-black text-sm">{entries.length} cached recipe{entries.length === 1 ? '' : 's'}</span>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by hex, provider, model, endpoint or paper"
+          className="w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+        />
+
+        <div className="mt-4 flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-2">
+          {isLoaded && visible.length === 0 && (
+            <p className="py-8 text-center text-[10px] font-bold uppercase tracking-widest text-gray-600">
+              {entries.length === 0 ? 'Nothing cached yet' : 'No matches'}
+            </p>
+          )}
+          {visible.map(entry => {
+            const recipe = entry.result.rejected?.cmyk ?? entry.result.conversions.smart_print_recipe;
+            const blackGeneration = BLACK_GENERATION_OPTIONS.find(o => o.id === entry.blackGeneration)?.name;
+            const isRerunning = rerunning.includes(entry.key);
+            const canRerun = getRerunSettings(entry, settings) !== null;
+            return (
+              <div key={entry.key} className="flex items-center gap-3 bg-white/[0.03] border border-white/5 rounded-2xl px-4 py-3">
+                <div className="w-8 h-8 rounded-lg ring-1 ring-white/20 shrink-0" style={{ backgroundColor: entry.hex }} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-black text-xs">{entry.hex}</span>
+                    <span className="font-mono font-bold text-[10px] text-gray-400">{formatRecipe(recipe)}</span>
+                    {entry.result.rejected && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-[8px] font-black text-amber-300 uppercase tracking-widest">Rejected</span>
+                    )}
+                  </div>
+                  <p className="mt-0.5 text-[9px] font-bold text-gray-500 truncate" title={entry.endpoint}>
+                    {getProviderInfo(entry.provider).name} · {entry.model} · {getPressProfile(entry.pressId).name} · {blackGeneration}
+                  </p>
+                  <p className="text-[9px] font-bold text-gray-600">
+                    Asked {formatAge(entry.createdAt)} · used {formatAge(entry.lastUsedAt)}
+                    {failed.includes(entry.key) && <span className="text-red-400"> · Re-run failed, kept this answer</span>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setAiCachePinned([entry.key], !entry.pinned)}
+                  className={`p-2 rounded-full border ${entry.pinned ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                  title={entry.pinned ? 'Unpin' : 'Pin: never expire or evict'}
+                >
+                  <PinIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleRerun(entry.key)}
+                  disabled={!canRerun || isRerunning}
+                  className="p-2 rounded-full bg-white/5 border border-white/10 text-gray-400 hover:text-white disabled:opacity-30"
+                  title={canRerun
+                    ? `Ask ${getProviderInfo(entry.provider).name} (${entry.model}) again`
+                    : `Set a ${getProviderInfo(entry.provider).name} API key in AI settings to re-run`}
+                >
+                  <RefreshIcon className={`w-3.5 h-3.5 ${isRerunning ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={() => removeAiCacheEntries([entry.key])}
+                  className="p-2 rounded-full bg-white/5 border border-white/10 text-gray-400 hover:text-red-400"
+                  title="Remove from cache"
+                >
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <span className="text-[9px] font-bold text-gray-600">
+            Least recently used recipes are dropped past {MAX_CACHE_ENTRIES} and after {CACHE_TTL_DAYS} days. Pinned ones are kept.
+          </span>
+          <button
+            onClick={() => removeAiCacheEntries(unpinnedKeys)}
+            disabled={unpinnedKeys.length === 0}
+            className="ml-auto shrink-0 bg-white/5 hover:bg-white/10 disabled:opacity-40 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+          >
+            Clear unpinned
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
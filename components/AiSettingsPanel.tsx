@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import {
+  AI_PROVIDERS, AiProviderId, AiSettings, describeDestination, getProviderInfo,
+  requestCompletion, settingsForProvider, validateAiSettings,
+} from '../utils/aiProviders';
+import { DEFAULT_INK_SETTINGS } from '../utils/inkCoverage';
+import { DEFAULT_PRESS_PROFILE } from '../utils/pressProfiles';
+import { CheckIcon, XIcon } from './Icons';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onManageCache: () => void;
+  onClose: () => void;
+}
+
+const TEST_HEX = '#6366F1';
+const TEST_PROMPT = `Reply with ONLY this JSON and nothing else: {"colors":[{"hex":"${TEST_HEX}","c":0,"m":0,"y":0,"k":0,"explanation":"ok"}]}`;
+
+export const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onSave, onManageCache, onClose }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [test, setTest] = useState<{ status: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ status: 'idle' });
+
+  const info = getProviderInfo(draft.provider);
+  const problem = validateAiSettings(draft);
+  const destination = describeDestination(draft);
+
+  const update = (patch: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTest({ status: 'idle' });
+  };
+
+  const chooseProvider = (provider: AiProviderId) => {
+    setDraft(prev => settingsForProvider(provider, provider === settings.provider ? settings : prev));
+    setTest({ status: 'idle' });
+  };
+
+  const handleTest = async () => {
+    setTest({ status: 'testing' });
+    try {
+      const text = await requestCompletion({ prompt: TEST_PROMPT, hexes: [TEST_HEX], ink: DEFAULT_INK_SETTINGS, press: DEFAULT_PRESS_PROFILE }, draft);
+      setTest(text.trim() ? { status: 'ok', message: 'Connected' } : { status: 'error', message: 'The model returned an empty answer.' });
+    } catch (err) {
+      setTest({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">AI Provider</h2>
+            <span className="font-black text-sm">Smart print recipes</span>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {AI_PROVIDERS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => chooseProvider(p.id)}
+              className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${
+                draft.provider === p.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+              }`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+        <p className="mt-3 text-[10px] font-bold text-gray-500">{info.description}</p>
+
+        {draft.provider !== 'off' && draft.provider !== 'mock' && (
+          <div className="mt-5 space-y-4">
+            <label className="block">
+              <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Base URL</span>
+              <input
+                value={draft.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder={info.defaultBaseUrl}
+                className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-mono font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Model</span>
+              <input
+                value={draft.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={info.defaultModel}
+                className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-mono font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+              />
+            </label>
+            {info.apiKey !== 'none' && (
+              <label className="block">
+                <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">
+                  API Key{info.apiKey === 'optional' && ' (optional)'}
+                </span>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  value={draft.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-mono font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+                />
+                <span className="mt-1 block text-[9px] font-bold text-gray-600">Stored in this browser only.</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className={`mt-5 rounded-2xl p-4 border ${destination ? 'border-amber-500/30 bg-amber-500/5' : 'border-emerald-500/30 bg-emerald-500/5'}`}>
+          <p className={`text-[10px] font-bold ${destination ? 'text-amber-200' : 'text-emerald-200'}`}>
+            {destination
+              ? `Hex codes of your colors will be sent to ${destination}.`
+              : 'Your colors never leave this device.'}
+          </p>
+        </div>
+
+        {problem && <p className="mt-3 text-[10px] font-bold text-red-400">{problem}</p>}
+
+        <div className="mt-6 flex items-center gap-3">
+          {draft.provider !== 'off' && (
+            <button
+              onClick={handleTest}
+              disabled={!!problem || test.status === 'testing'}
+              className="flex items-center gap-2 bg-white/5 hover:bg-white/10 disabled:opacity-40 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+            >
+              {test.status === 'ok' && <CheckIcon className="w-3.5 h-3.5 text-emerald-400" />}
+              {test.status === 'testing' ? 'Testing...' : 'Test'}
+            </button>
+          )}
+          <button
+            onClick={onManageCache}
+            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+          >
+            Cache
+          </button>
+          {test.status === 'error' && <span className="text-[10px] font-bold text-red-400 min-w-0 break-words">{test.message}</span>}
+          <button
+            onClick={handleSave}
+            disabled={!!problem}
+            className="ml-auto bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/5 disabled:text-gray-700 px-6 py-2 rounded-full text-xs font-black tracking-widest uppercase"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { CmykValues, ColorRecord } from '../types';
+import { COLOR_ROLES, normalizeTags } from '../utils/collections';
+import { getTotalInk } from '../utils/inkCoverage';
+import { LockIcon, XIcon } from './Icons';
+
+interface ColorEditPanelProps {
+  color: ColorRecord;
+  /** Recipe the color would get without a lock, used to prefill the lock fields. */
+  computedCmyk: CmykValues;
+  tacLimit: number;
+  onSave: (patch: Pick<ColorRecord, 'name' | 'tags' | 'notes' | 'lockedCmyk'>) => void;
+  onClose: () => void;
+}
+
+const CHANNELS = ['c', 'm', 'y', 'k'] as const;
+
+export const ColorEditPanel: React.FC<ColorEditPanelProps> = ({ color, computedCmyk, tacLimit, onSave, onClose }) => {
+  const [name, setName] = useState(color.name ?? '');
+  const [tags, setTags] = useState<string[]>(color.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [notes, setNotes] = useState(color.notes ?? '');
+  const [locked, setLocked] = useState(!!color.lockedCmyk);
+  const [cmyk, setCmyk] = useState<CmykValues>(color.lockedCmyk ?? computedCmyk);
+
+  const addTags = (raw: string) => {
+    const next = normalizeTags([...tags, ...raw.split(',')]);
+    setTags(next ?? []);
+    setTagInput('');
+  };
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const setChannel = (channel: typeof CHANNELS[number], value: string) => {
+    const n = Math.max(0, Math.min(100, Math.round(Number(value) || 0)));
+    setCmyk(prev => ({ ...prev, [channel]: n }));
+  };
+
+  const handleSave = () => {
+    const pendingTags = tagInput.trim() ? normalizeTags([...tags, ...tagInput.split(',')]) : normalizeTags(tags);
+    onSave({
+      name: name.trim() || undefined,
+      tags: pendingTags,
+      notes: notes.trim() || undefined,
+      lockedCmyk: locked ? cmyk : undefined,
+    });
+    onClose();
+  };
+
+  const totalInk = getTotalInk(cmyk);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl ring-1 ring-white/20" style={{ backgroundColor: color.hex }} />
+            <div>
+              <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Edit Color</h2>
+              <span className="font-mono font-black text-sm">{color.hex}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <label className="block">
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Name</span>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Signal Red"
+              className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-bold text-sm focus:outline-none focus:border-indigo-500/50"
+            />
+          </label>
+
+          <div>
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Roles & Tags</span>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {Array.from(new Set([...COLOR_ROLES, ...tags])).map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest border ${
+                    tags.includes(tag) ? 'border-indigo-500/50 bg-indigo-500/20 text-indigo-200' : 'border-white/10 text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+            <input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && tagInput.trim()) addTags(tagInput); }}
+              placeholder="Add tags, comma separated"
+              className="mt-2 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+            />
+          </div>
+
+          <label className="block">
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Notes</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Approved on press check 2024-03-12"
+              className="mt-1 w-full h-20 resize-none bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+            />
+          </label>
+
+          <div className={`rounded-2xl p-4 border ${locked ? 'border-amber-500/40 bg-amber-500/5' : 'border-white/10'}`}>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={locked} onChange={(e) => setLocked(e.target.checked)} className="accent-amber-500" />
+              <LockIcon className="w-3.5 h-3.5 text-amber-300" />
+              <span className="text-[10px] font-black uppercase tracking-widest">Lock CMYK recipe</span>
+            </label>
+            <p className="mt-1 text-[10px] font-bold text-gray-500">
+              A locked recipe replaces the AI and heuristic result on screen, in the PDF and in every export.
+            </p>
+            <div className="mt-3 grid grid-cols-4 gap-2">
+              {CHANNELS.map(channel => (
+                <label key={channel} className="flex flex-col items-center gap-1">
+                  <span className="text-[9px] font-black uppercase text-gray-500">{channel}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    disabled={!locked}
+                    value={cmyk[channel]}
+                    onChange={(e) => setChannel(channel, e.target.value)}
+                    className="w-full bg-white/[0.05] border border-white/10 rounded-lg px-2 py-1 text-center font-mono font-bold text-sm disabled:opacity-40 focus:outline-none focus:border-amber-500/50"
+                  />
+                </label>
+              ))}
+            </div>
+            {locked && (
+              <p className={`mt-2 text-[10px] font-bold ${totalInk > tacLimit ? 'text-amber-400' : 'text-gray-500'}`}>
+                TAC {totalInk}%{totalInk > tacLimit && ` exceeds the ${tacLimit}% limit`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={handleSave}
+          className="mt-6 w-full bg-indigo-600 hover:bg-indigo-500 py-4 rounded-3xl font-black text-sm tracking-widest uppercase transition-all active:scale-[0.98]"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { buildContrastMatrix, ContrastResult } from '../utils/contrast';
+import { VISION_MODES, VisionMode } from '../utils/visionSimulation';
+import { XIcon } from './Icons';
+import { visionFilterStyle } from './VisionFilters';
+
+interface ContrastMatrixProps {
+  hexes: string[];
+  visionMode: VisionMode;
+  onClose: () => void;
+}
+
+const Badge: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <span className={`px-1 rounded text-[7px] font-black tracking-wider ${pass ? 'bg-emerald-500/20 text-emerald-300' : 'bg-red-500/10 text-red-400/70 line-through'}`}>
+    {label}
+  </span>
+);
+
+const ContrastCell: React.FC<{ cell: ContrastResult }> = ({ cell }) => {
+  if (cell.text === cell.background) {
+    return <td className="p-1"><div className="h-full min-h-[84px] rounded-xl bg-white/[0.02]" /></td>;
+  }
+  return (
+    <td className="p-1">
+      <div className="rounded-xl p-2 min-w-[92px] ring-1 ring-white/5" style={{ backgroundColor: cell.background, color: cell.text }}>
+        <div className="text-lg font-black leading-none">Aa</div>
+        <div className="mt-1 font-mono text-[10px] font-bold">{cell.ratio.toFixed(2)}:1</div>
+        <div className="font-mono text-[9px] font-bold opacity-80">Lc {cell.apca.toFixed(0)}</div>
+      </div>
+      <div className="mt-1 flex flex-wrap gap-0.5">
+        <Badge label="AA" pass={cell.aaNormal} />
+        <Badge label="AAA" pass={cell.aaaNormal} />
+        <Badge label="AA L" pass={cell.aaLarge} />
+        <Badge label="AAA L" pass={cell.aaaLarge} />
+      </div>
+    </td>
+  );
+};
+
+export const ContrastMatrix: React.FC<ContrastMatrixProps> = ({ hexes, visionMode, onClose }) => {
+  const { colors, cells } = useMemo(() => buildContrastMatrix(hexes), [hexes]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">
+            Contrast Matrix
+            {visionMode !== 'normal' && ` · ${VISION_MODES.find(m => m.id === visionMode)?.name}`}
+          </h2>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="mb-6 text-[10px] font-bold text-gray-500">
+          Rows are text, columns are backgrounds. WCAG 2.x ratios with AA/AAA for normal and large (L) text; APCA Lc is signed by polarity.
+        </p>
+
+        <table className="border-separate border-spacing-0" style={visionFilterStyle(visionMode)}>
+          <thead>
+            <tr>
+              <th className="p-1 text-left text-[8px] font-black uppercase tracking-widest text-gray-600">Text ↓ / Bg →</th>
+              {colors.map(bg => (
+                <th key={bg} className="p-1">
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded ring-1 ring-white/20" style={{ backgroundColor: bg }} />
+                    <span className="font-mono text-[9px] font-bold text-gray-400">{bg}</span>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cells.map((row, i) => (
+              <tr key={colors[i]}>
+                <th className="p-1 align-top">
+                  <div className="flex items-center gap-1 pt-2">
+                    <div className="w-3 h-3 rounded ring-1 ring-white/20" style={{ backgroundColor: colors[i] }} />
+                    <span className="font-mono text-[9px] font-bold text-gray-400">{colors[i]}</span>
+                  </div>
+                </th>
+                {row.map(cell => <ContrastCell key={cell.background} cell={cell} />)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Collection, InkSettings } from '../types';
+import { resolvePrintConversion } from '../utils/aiColorService';
+import { copyToClipboard, downloadBlob } from '../utils/colorUtils';
+import { getPressProfile } from '../utils/pressProfiles';
+import { getColorLabel } from '../utils/collections';
+import { dedupeSlugs, generateTokenFile, generateTokens, slugify, TOKEN_FORMATS, TokenColor, TokenFormat } from '../utils/tokenExports';
+import { CheckIcon, CopyIcon, DownloadIcon, XIcon } from './Icons';
+
+interface ExportPanelProps {
+  collection: Collection;
+  ink: InkSettings;
+  /** useIccProfile's version; the CMYK values go through the active output profile. */
+  profileVersion: number;
+  onClose: () => void;
+}
+
+const defaultSlug = (collection: Collection, index: number) => {
+  const record = collection.colors[index];
+  return (record.name || record.spot) ? slugify(getColorLabel(record)) : `color-${index + 1}`;
+};
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ collection, ink, profileVersion, onClose }) => {
+  const [format, setFormat] = useState<TokenFormat>('css');
+  const [slugOverrides, setSlugOverrides] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+
+  const tokens = useMemo<TokenColor[]>(() => {
+    const press = getPressProfile(collection.pressProfileId);
+    const slugs = dedupeSlugs(collection.colors.map((c, i) => slugify(slugOverrides[c.id] ?? '') || defaultSlug(collection, i)));
+    return collection.colors.map((record, i) => {
+      const { c, m, y, k } = resolvePrintConversion(record.hex, ink, press, record.lockedCmyk).conversions.smart_print_recipe;
+      return { slug: slugs[i], hex: record.hex, cmyk: { c, m, y, k } };
+    });
+  }, [collection, ink, profileVersion, slugOverrides]);
+
+  const output = useMemo(() => generateTokens(format, collection.name, tokens), [format, collection.name, tokens]);
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(output)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleDownload = () => {
+    const { blob, filename } = generateTokenFile(format, collection.name, tokens);
+    downloadBlob(blob, filename);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Export Tokens</h2>
+            <span className="font-black text-sm">{collection.name}</span>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {TOKEN_FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${
+                format === f.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+              }`}
+            >
+              {f.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-[220px_1fr] gap-6">
+          <div className="space-y-2">
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Token names</span>
+            {collection.colors.map((record, i) => (
+              <label key={record.id} className="flex items-center gap-2">
+                <span className="w-5 h-5 rounded-md shrink-0 ring-1 ring-white/20" style={{ backgroundColor: record.hex }} />
+                <input
+                  value={slugOverrides[record.id] ?? tokens[i].slug}
+                  onChange={(e) => setSlugOverrides(prev => ({ ...prev, [record.id]: e.target.value }))}
+                  className="w-full bg-white/[0.05] border border-white/10 rounded-lg px-2 py-1 font-mono text-[11px] font-bold focus:outline-none focus:border-indigo-500/50"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-3 min-w-0">
+            <pre className="bg-black/40 rounded-2xl p-4 font-mono text-[11px] text-gray-300 overflow-auto max-h-[50vh] no-scrollbar whitespace-pre">
+              {output}
+            </pre>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+              >
+                {copied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+                Copy
+              </button>
+              <button
+                onClick={handleDownload}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase"
+              >
+                <DownloadIcon className="w-3.5 h-3.5" />
+                Download
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ExtractedColor, ExtractionOptions } from '../utils/paletteExtraction';
+import { PlusIcon, XIcon } from './Icons';
+
+interface ImagePalettePreviewProps {
+  fileName: string | null;
+  previewUrl: string | null;
+  colors: ExtractedColor[];
+  options: ExtractionOptions;
+  status: 'idle' | 'working' | 'ready' | 'error';
+  error: string | null;
+  onOptionsChange: (options: ExtractionOptions) => void;
+  onAccept: (hexes: string[]) => void;
+  onClear: () => void;
+}
+
+const COLOR_COUNTS = [3, 4, 5, 6, 8, 10, 12];
+
+export const ImagePalettePreview: React.FC<ImagePalettePreviewProps> = ({
+  fileName, previewUrl, colors, options, status, error, onOptionsChange, onAccept, onClear,
+}) => {
+  if (status === 'idle') return null;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-black/20 p-4">
+      <div className="flex items-center gap-3">
+        {previewUrl && <img src={previewUrl} alt="" className="w-12 h-12 rounded-xl object-cover ring-1 ring-white/10" />}
+        <div className="min-w-0 flex-1">
+          <div className="text-[10px] font-black uppercase tracking-widest text-indigo-300">From Image</div>
+          <div className="text-xs font-bold text-gray-400 truncate">{fileName}</div>
+        </div>
+        <select
+          value={options.count}
+          onChange={(e) => onOptionsChange({ ...options, count: Number(e.target.value) })}
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-widest text-gray-300 focus:outline-none"
+        >
+          {COLOR_COUNTS.map(n => <option key={n} value={n}>{n} colors</option>)}
+        </select>
+        <button onClick={onClear} className="p-2 bg-white/5 hover:bg-white/10 rounded-full" title="Discard">
+          <XIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <label className="mt-3 flex items-center gap-2 text-[10px] font-bold text-gray-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.ignoreBackground}
+          onChange={(e) => onOptionsChange({ ...options, ignoreBackground: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Ignore near-white and near-black background
+      </label>
+
+      {status === 'error' && <p className="mt-3 text-[10px] font-bold text-red-400">{error}</p>}
+      {status === 'working' && <p className="mt-3 text-[10px] font-bold uppercase tracking-widest text-indigo-300 animate-pulse">Extracting...</p>}
+
+      {status === 'ready' && (
+        colors.length === 0 ? (
+          <p className="mt-3 text-[10px] font-bold text-gray-500">No colors left after filtering. Try including the background.</p>
+        ) : (
+          <>
+            <div className="mt-3 flex h-14 rounded-2xl overflow-hidden ring-1 ring-white/10">
+              {colors.map(c => (
+                <div
+                  key={c.hex}
+                  className="flex items-end justify-center pb-1"
+                  style={{ backgroundColor: c.hex, flexGrow: Math.max(c.share, 0.04) }}
+                  title={`${c.hex} · ${(c.share * 100).toFixed(1)}%`}
+                >
+                  <span className="px-1 rounded bg-black/30 font-mono text-[8px] font-bold text-white">{c.hex}</span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => onAccept(colors.map(c => c.hex))}
+              className="mt-3 w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 py-3 rounded-2xl font-black text-xs tracking-widest uppercase"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Add {colors.length} to Current Set
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { IMPORT_ACTIONS, ImportAction, ImportPlanItem, actionsFor, planImport } from '../utils/paletteImport';
+import { UploadIcon, XIcon } from './Icons';
+
+interface ImportDialogProps {
+  fileName: string;
+  existing: Collection[];
+  incoming: Collection[];
+  issues: string[];
+  onConfirm: (plan: ImportPlanItem[]) => void;
+  onClose: () => void;
+}
+
+const actionName = (id: ImportAction) => IMPORT_ACTIONS.find(a => a.id === id)!.name;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, existing, incoming, issues, onConfirm, onClose }) => {
+  // Planned once against the collections as they were when the dialog opened, so the choices below stay lined up
+  const [initialPlan] = useState(() => planImport(existing, incoming));
+  const [actions, setActions] = useState<ImportAction[]>(() => initialPlan.map(item => item.action));
+  const [showIssues, setShowIssues] = useState(false);
+
+  const plan = initialPlan.map((item, i) => ({ ...item, action: actions[i] }));
+  const conflictCount = plan.filter(item => item.conflict).length;
+  const importing = plan.filter(item => item.action !== 'skip').length;
+
+  const setAction = (index: number, action: ImportAction) => {
+    setActions(prev => prev.map((a, i) => (i === index ? action : a)));
+  };
+
+  // Applies to conflicts only; new collections keep their own choice
+  const setAllConflicts = (action: ImportAction) => {
+    setActions(prev => prev.map((a, i) => (plan[i].conflict ? action : a)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Import Palettes</h2>
+            <span className="font-black text-sm truncate block">{fileName}</span>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mb-6 rounded-2xl border border-amber-500/30 bg-amber-500/10 p-4">
+            <button
+              onClick={() => setShowIssues(v => !v)}
+              className="w-full flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-amber-300"
+            >
+              {issues.length} problem{issues.length === 1 ? '' : 's'} in file
+              <span className="text-amber-400/70">{showIssues ? 'Hide' : 'Show'}</span>
+            </button>
+            {showIssues && (
+              <ul className="mt-3 space-y-1 max-h-40 overflow-y-auto no-scrollbar">
+                {issues.map((issue, i) => (
+                  <li key={i} className="text-[11px] font-bold text-amber-100/80">{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {conflictCount > 1 && (
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">All conflicts</span>
+            {(['merge', 'replace', 'rename', 'skip'] as const).map(action => (
+              <button
+                key={action}
+                onClick={() => setAllConflicts(action)}
+                className="px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest bg-white/5 border border-white/10 text-gray-400 hover:text-white"
+              >
+                {actionName(action)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <ul className="space-y-3">
+          {plan.map((item, i) => (
+            <li key={`${item.incoming.id}-${i}`} className={`p-4 rounded-2xl border ${item.action === 'skip' ? 'border-white/5 opacity-50' : 'border-white/10 bg-white/[0.03]'}`}>
+              <div className="flex items-center gap-3">
+                <div className="flex h-8 w-24 shrink-0 rounded-lg overflow-hidden ring-1 ring-white/10">
+                  {item.incoming.colors.slice(0, 8).map(c => (
+                    <div key={c.id} className="flex-1" style={{ backgroundColor: c.hex }} />
+                  ))}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="font-black text-sm truncate">{item.incoming.name}</div>
+                  <div className="text-[10px] font-bold text-gray-500">
+                    {item.incoming.colors.length} color{item.incoming.colors.length === 1 ? '' : 's'}
+                    {item.conflict && (
+                      <span className="text-amber-300"> · conflicts with "{item.conflict.name}" ({item.conflict.colors.length})</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {actionsFor(item).map(action => (
+                  <button
+                    key={action}
+                    onClick={() => setAction(i, action)}
+                    title={IMPORT_ACTIONS.find(a => a.id === action)!.description}
+                    className={`px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest border transition-all ${
+                      item.action === action ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {actionName(action)}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {plan.length === 0 && (
+          <p className="text-xs font-bold text-gray-500">Nothing in this file could be imported.</p>
+        )}
+
+        <div className="mt-6 flex items-center gap-3">
+          <button
+            onClick={onClose}
+            className="ml-auto bg-white/5 hover:bg-white/10 text-gray-300 px-6 py-3 rounded-full text-xs font-black tracking-widest uppercase border border-white/10"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(plan)}
+            disabled={importing === 0}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/5 disabled:text-gray-700 px-6 py-3 rounded-full text-xs font-black tracking-widest uppercase"
+          >
+            <UploadIcon className="w-4 h-4" />
+            Import {importing}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ColorRecord, InkSettings, PressProfile } from '../types';
+import { useAiCmyk } from '../hooks/useAiCmyk';
+import { getColorLabel } from '../utils/collections';
+import { GENERATOR_KINDS, GeneratorKind, generatePalette } from '../utils/paletteGenerator';
+import { getSoftProof } from '../utils/softProof';
+import { CheckIcon, PlusIcon, XIcon } from './Icons';
+
+interface PaletteGeneratorProps {
+  color: ColorRecord;
+  existingHexes: string[];
+  ink: InkSettings;
+  press: PressProfile;
+  onAdd: (records: Omit<ColorRecord, 'id'>[]) => void;
+  onClose: () => void;
+}
+
+export const PaletteGenerator: React.FC<PaletteGeneratorProps> = ({ color, existingHexes, ink, press, onAdd, onClose }) => {
+  const [kind, setKind] = useState<GeneratorKind>('scale');
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const generated = useMemo(() => generatePalette(color.hex, kind), [color.hex, kind]);
+  const records = useMemo<ColorRecord[]>(() => generated.map(g => ({ id: g.hex, hex: g.hex })), [generated]);
+  const { getResult, isLoading } = useAiCmyk(records, ink, press);
+
+  const existingKey = existingHexes.join(',');
+  useEffect(() => {
+    // Colors already in the collection start unchecked
+    setExcluded(generated.filter(g => existingHexes.includes(g.hex)).map(g => g.hex));
+  }, [generated, existingKey]);
+
+  const toggle = (hex: string) => {
+    setExcluded(prev => (prev.includes(hex) ? prev.filter(h => h !== hex) : [...prev, hex]));
+  };
+
+  const baseName = getColorLabel(color);
+  const chosen = generated.filter(g => !excluded.includes(g.hex));
+
+  const handleAdd = () => {
+    onAdd(chosen.map(g => ({ hex: g.hex, name: `${baseName} ${g.label}` })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl ring-1 ring-white/20" style={{ backgroundColor: color.hex }} />
+            <div>
+              <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Generate From</h2>
+              <span className="font-mono font-black text-sm">{baseName}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {GENERATOR_KINDS.map(k => (
+            <button
+              key={k.id}
+              onClick={() => setKind(k.id)}
+              className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${
+                kind === k.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+              }`}
+            >
+              {k.name}
+            </button>
+          ))}
+        </div>
+
+        <ul className="space-y-2">
+          {generated.map(g => {
+            const smart = getResult(g.hex).conversions.smart_print_recipe;
+            const proof = getSoftProof(g.hex, smart, press);
+            const included = !excluded.includes(g.hex);
+            return (
+              <li
+                key={`${g.label}-${g.hex}`}
+                onClick={() => toggle(g.hex)}
+                className={`flex items-center gap-3 p-2 rounded-2xl cursor-pointer border transition-all ${
+                  included ? 'border-indigo-500/40 bg-white/[0.03]' : 'border-white/5 opacity-50'
+                }`}
+              >
+                <div className="w-12 h-10 rounded-xl ring-1 ring-white/20 flex items-center justify-center" style={{ backgroundColor: g.hex }}>
+                  {included && <CheckIcon className="w-4 h-4 text-white drop-shadow" />}
+                </div>
+                <span className="w-12 font-mono text-[11px] font-black text-gray-400">{g.label}</span>
+                <span className="font-mono text-xs font-black">{g.hex}</span>
+                <span className="font-mono text-[10px] font-bold text-indigo-300">
+                  {smart.c}/{smart.m}/{smart.y}/{smart.k}
+                </span>
+                <span className="ml-auto flex items-center gap-2">
+                  {g.clipped && (
+                    <span className="text-[8px] font-black uppercase tracking-widest text-gray-500" title="Chroma reduced to fit sRGB">
+                      sRGB clipped
+                    </span>
+                  )}
+                  {proof.severity !== 'match' && (
+                    <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${
+                      proof.severity === 'out-of-gamut' ? 'bg-amber-500/20 text-amber-300' : 'bg-white/5 text-gray-400'
+                    }`}>
+                      {proof.severity === 'out-of-gamut' ? 'Unprintable' : 'Shifts'} · ΔE {proof.deltaE.toFixed(1)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-6 flex items-center gap-3">
+          {isLoading && <span className="text-[9px] font-bold uppercase tracking-widest text-indigo-300 animate-pulse">AI analyzing...</span>}
+          <button
+            onClick={handleAdd}
+            disabled={chosen.length === 0}
+            className="ml-auto flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/5 disabled:text-gray-700 px-6 py-3 rounded-full text-xs font-black tracking-widest uppercase"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Add {chosen.length} to Collection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
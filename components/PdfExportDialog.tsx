@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_PAGE_OPTIONS, MAX_PAGE_SIDE, MIN_PAGE_SIDE, PAGE_SIZES, PageOrientation, PageSizeId, PdfPageOptions, PdfSheetMode,
+} from '../utils/proofSheet';
+import { DownloadIcon, XIcon } from './Icons';
+
+interface PdfExportDialogProps {
+  colorCount: number;
+  onExport: (mode: PdfSheetMode, page: PdfPageOptions) => void;
+  onClose: () => void;
+}
+
+const MODES: { id: PdfSheetMode; name: string; description: string }[] = [
+  { id: 'screen', name: 'Screen Sheet', description: 'RGB swatches with every readout, all colors on one page.' },
+  {
+    id: 'proof',
+    name: 'Press Proof',
+    description: 'Swatches filled with the exact CMYK builds, tint ramps, crop and registration marks and a color bar. Runs to as many pages as needed.',
+  },
+];
+
+const SIZES: { id: PageSizeId; name: string }[] = [...PAGE_SIZES, { id: 'custom', name: 'Custom' }];
+const ORIENTATIONS: PageOrientation[] = ['landscape', 'portrait'];
+
+const pillClass = (active: boolean) => `px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${
+  active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+}`;
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ colorCount, onExport, onClose }) => {
+  const [mode, setMode] = useState<PdfSheetMode>('screen');
+  const [page, setPage] = useState<PdfPageOptions>(DEFAULT_PAGE_OPTIONS);
+
+  const update = (patch: Partial<PdfPageOptions>) => setPage(prev => ({ ...prev, ...patch }));
+
+  const customInvalid = page.size === 'custom' && [page.width, page.height].some(side =>
+    !Number.isFinite(side) || side < MIN_PAGE_SIDE || side > MAX_PAGE_SIDE);
+
+  const handleExport = () => {
+    onExport(mode, page);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Export PDF</h2>
+            <span className="font-black text-sm">{colorCount} color{colorCount === 1 ? '' : 's'}</span>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {MODES.map(m => (
+            <button key={m.id} onClick={() => setMode(m.id)} className={pillClass(mode === m.id)}>{m.name}</button>
+          ))}
+        </div>
+        <p className="mt-3 text-[10px] font-bold text-gray-500">{MODES.find(m => m.id === mode)?.description}</p>
+
+        <span className="mt-6 block text-[9px] text-gray-600 font-bold uppercase tracking-widest">Page</span>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {SIZES.map(s => (
+            <button key={s.id} onClick={() => update({ size: s.id })} className={pillClass(page.size === s.id)}>{s.name}</button>
+          ))}
+        </div>
+
+        {page.size === 'custom' && (
+          <div className="mt-4 flex items-end gap-3">
+            {(['width', 'height'] as const).map(side => (
+              <label key={side} className="block flex-1">
+                <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{side} (mm)</span>
+                <input
+                  type="number"
+                  min={MIN_PAGE_SIDE}
+                  max={MAX_PAGE_SIDE}
+                  value={page[side]}
+                  onChange={(e) => update({ [side]: parseFloat(e.target.value) })}
+                  className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-mono font-bold text-xs focus:outline-none focus:border-indigo-500/50"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {customInvalid && (
+          <p className="mt-3 text-[10px] font-bold text-red-400">Each side must be between {MIN_PAGE_SIDE} and {MAX_PAGE_SIDE} mm.</p>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {ORIENTATIONS.map(o => (
+            <button key={o} onClick={() => update({ orientation: o })} className={pillClass(page.orientation === o)}>{o}</button>
+          ))}
+        </div>
+
+        <div className="mt-6 flex items-center justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={customInvalid}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/5 disabled:text-gray-700 px-6 py-2 rounded-full text-xs font-black tracking-widest uppercase"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
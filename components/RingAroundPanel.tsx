@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { CmykValues, ColorRecord, PressProfile } from '../types';
+import { getColorLabel } from '../utils/collections';
+import { getTotalInk } from '../utils/inkCoverage';
+import { DEFAULT_PAGE_OPTIONS, formatCmyk, PAGE_SIZES, PdfPageOptions } from '../utils/proofSheet';
+import { buildRingAround, buildRingAroundPdf, RING_GRID_SIZE, RING_STEP_SETS } from '../utils/ringAround';
+import { getSoftProof } from '../utils/softProof';
+import { DownloadIcon, LockIcon, XIcon } from './Icons';
+
+interface RingAroundPanelProps {
+  color: ColorRecord;
+  /** The recipe the chart is built around: the color's smart or locked build. */
+  baseCmyk: CmykValues;
+  press: PressProfile;
+  tacLimit: number;
+  onLock: (cmyk: CmykValues) => void;
+  onClose: () => void;
+}
+
+const pillClass = (active: boolean) => `px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${
+  active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+}`;
+
+export const RingAroundPanel: React.FC<RingAroundPanelProps> = ({ color, baseCmyk, press, tacLimit, onLock, onClose }) => {
+  const [stepSetId, setStepSetId] = useState('standard');
+  const [pageSize, setPageSize] = useState<PdfPageOptions['size']>(DEFAULT_PAGE_OPTIONS.size);
+  const [code, setCode] = useState('');
+
+  const steps = RING_STEP_SETS.find(s => s.id === stepSetId)?.steps ?? RING_STEP_SETS[1].steps;
+  const patches = useMemo(() => buildRingAround(baseCmyk, steps), [baseCmyk, steps]);
+  const selected = patches.find(p => p.code === code.trim().toUpperCase().replace(/\s+/g, ''));
+  const selectedInk = selected ? getTotalInk(selected.cmyk) : 0;
+
+  const handleDownload = () => {
+    const label = getColorLabel(color);
+    buildRingAroundPdf(
+      patches,
+      { title: label, hex: color.hex, pressName: press.name },
+      { ...DEFAULT_PAGE_OPTIONS, size: pageSize, orientation: 'portrait' }
+    ).save(`${label}-ring-around.pdf`);
+  };
+
+  const handleLock = () => {
+    if (!selected) return;
+    onLock(selected.cmyk);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl ring-1 ring-white/20" style={{ backgroundColor: color.hex }} />
+            <div>
+              <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Ring-Around</h2>
+              <span className="font-mono font-black text-sm">{formatCmyk(baseCmyk)}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {RING_STEP_SETS.map(s => (
+            <button key={s.id} onClick={() => setStepSetId(s.id)} className={pillClass(stepSetId === s.id)}>{s.name}</button>
+          ))}
+        </div>
+
+        <div className="mt-5 grid gap-1.5" style={{ gridTemplateColumns: `repeat(${RING_GRID_SIZE}, minmax(0, 1fr))` }}>
+          {Array.from({ length: RING_GRID_SIZE * RING_GRID_SIZE }, (_, i) => {
+            const patch = patches.find(p => p.row * RING_GRID_SIZE + p.col === i);
+            if (!patch) return <div key={i} />;
+            const isSelected = patch === selected;
+            return (
+              <button
+                key={patch.code}
+                onClick={() => setCode(patch.code)}
+                title={formatCmyk(patch.cmyk)}
+                className={`aspect-square rounded-xl flex items-end justify-center pb-1 ring-2 transition-all ${
+                  isSelected ? 'ring-indigo-400 scale-105' : 'ring-transparent hover:ring-white/30'
+                }`}
+                style={{ backgroundColor: getSoftProof(color.hex, patch.cmyk, press).printHex }}
+              >
+                <span className="px-1.5 rounded-full bg-black/40 text-[8px] font-black text-white">{patch.code}</span>
+              </button>
+            );
+          })}
+        </div>
+        <p className="mt-3 text-[10px] font-bold text-gray-500">
+          On-screen patches are estimates. Print the chart on the target press, then pick or type the code of the best match.
+        </p>
+
+        <div className="mt-5 flex items-center gap-3">
+          <div className="flex gap-2">
+            {PAGE_SIZES.map(s => (
+              <button key={s.id} onClick={() => setPageSize(s.id)} className={pillClass(pageSize === s.id)}>{s.name}</button>
+            ))}
+          </div>
+          <button
+            onClick={handleDownload}
+            className="ml-auto flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-full text-xs font-bold tracking-widest uppercase border border-white/10"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" />
+            Chart PDF
+          </button>
+        </div>
+
+        <div className="mt-6 flex items-end gap-3">
+          <label className="block w-28">
+            <span className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Patch code</span>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="C+5"
+              className="mt-1 w-full bg-white/[0.05] border border-white/10 rounded-xl px-4 py-2 font-mono font-bold text-xs uppercase focus:outline-none focus:border-indigo-500/50"
+            />
+          </label>
+          <div className="min-w-0 flex-1 pb-2">
+            {selected && (
+              <span className={`text-[10px] font-bold ${selectedInk > tacLimit ? 'text-amber-300' : 'text-gray-400'}`}>
+                {formatCmyk(selected.cmyk)} · TAC {selectedInk}%{selectedInk > tacLimit && ` (over ${tacLimit}%)`}
+              </span>
+            )}
+            {!selected && code.trim() && <span className="text-[10px] font-bold text-red-400">No patch with that code</span>}
+          </div>
+          <button
+            onClick={handleLock}
+            disabled={!selected}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-white/5 disabled:text-gray-700 px-5 py-2 rounded-full text-xs font-black tracking-widest uppercase"
+          >
+            <LockIcon className="w-3.5 h-3.5" />
+            Lock
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
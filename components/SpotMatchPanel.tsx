@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { ColorRecord, SpotAssignment, SpotLibrary } from '../types';
+import { findNearestSpots, formatSpotName, toSpotAssignment } from '../utils/spotLibraries';
+import { CheckIcon, UploadIcon, XIcon } from './Icons';
+
+interface SpotMatchPanelProps {
+  color: ColorRecord;
+  libraries: SpotLibrary[];
+  error: string | null;
+  onAssign: (spot: SpotAssignment | undefined) => void;
+  onLoadLibrary: (file: File) => void;
+  onRemoveLibrary: (id: string) => void;
+  onClose: () => void;
+}
+
+const MATCH_COUNTS = [3, 5, 10];
+
+export const SpotMatchPanel: React.FC<SpotMatchPanelProps> = ({
+  color, libraries, error, onAssign, onLoadLibrary, onRemoveLibrary, onClose,
+}) => {
+  const [count, setCount] = useState(5);
+  const [disabledIds, setDisabledIds] = useState<string[]>([]);
+
+  const matches = useMemo(() => {
+    const enabled = libraries.filter(l => !disabledIds.includes(l.id));
+    return findNearestSpots(color.hex, enabled, count);
+  }, [color.hex, libraries, disabledIds, count]);
+
+  const toggleLibrary = (id: string) => {
+    setDisabledIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleLoadLibrary = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) onLoadLibrary(file);
+    };
+    input.click();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-900 rounded-[2.5rem] p-8 border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl ring-1 ring-white/20" style={{ backgroundColor: color.hex }} />
+            <div>
+              <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400">Spot Match</h2>
+              <span className="font-mono font-black text-sm">{color.hex}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 hover:bg-white/10 rounded-full">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {libraries.map(lib => (
+            <span
+              key={lib.id}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest border cursor-pointer ${
+                disabledIds.includes(lib.id) ? 'border-white/10 text-gray-600' : 'border-indigo-500/50 text-indigo-300'
+              }`}
+              onClick={() => toggleLibrary(lib.id)}
+              title={lib.description}
+            >
+              {lib.name}
+              {lib.custom && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemoveLibrary(lib.id); }}
+                  className="opacity-50 hover:opacity-100"
+                  title="Remove library"
+                >
+                  <XIcon className="w-2.5 h-2.5" />
+                </button>
+              )}
+            </span>
+          ))}
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="ml-auto bg-white/5 border border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-300 focus:outline-none"
+          >
+            {MATCH_COUNTS.map(n => <option key={n} value={n}>Top {n}</option>)}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          {matches.map(match => {
+            const assigned = color.spot?.libraryId === match.libraryId && color.spot.code === match.color.code;
+            return (
+              <button
+                key={`${match.libraryId}-${match.color.code}`}
+                onClick={() => onAssign(assigned ? undefined : toSpotAssignment(match))}
+                className={`w-full flex items-center gap-3 p-3 rounded-2xl border transition-all ${
+                  assigned ? 'border-indigo-500 bg-indigo-500/10' : 'border-white/5 bg-white/[0.03] hover:bg-white/[0.06]'
+                }`}
+              >
+                <div className="flex rounded-lg overflow-hidden ring-1 ring-white/10 shrink-0">
+                  <div className="w-6 h-8" style={{ backgroundColor: color.hex }} />
+                  <div className="w-6 h-8" style={{ backgroundColor: match.color.hex }} />
+                </div>
+                <div className="flex-1 text-left">
+                  <div className="text-xs font-black">{formatSpotName(toSpotAssignment(match))}</div>
+                  <div className="text-[9px] text-gray-500 font-bold uppercase tracking-widest">{match.libraryName} · {match.color.hex}</div>
+                </div>
+                <span className="font-mono text-[10px] font-bold text-gray-400">ΔE {match.deltaE.toFixed(1)}</span>
+                {assigned && <CheckIcon className="w-4 h-4 text-indigo-400" />}
+              </button>
+            );
+          })}
+          {matches.length === 0 && (
+            <p className="py-8 text-center text-[10px] font-bold uppercase tracking-widest text-gray-600">
+              No spot libraries available
+            </p>
+          )}
+        </div>
+
+        {error && <p className="mt-4 text-[10px] font-bold text-red-400">{error}</p>}
+
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={handleLoadLibrary}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white px-4 py-1.5 rounded-full text-[10px] font-bold tracking-widest uppercase transition-all border border-white/10"
+          >
+            <UploadIcon className="w-3 h-3" />
+            Load Library JSON
+          </button>
+          {color.spot && (
+            <button
+              onClick={() => onAssign(undefined)}
+              className="text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-red-400"
+            >
+              Clear {color.spot.code}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { VISION_MATRICES, VisionDeficiency, VisionMode, toSvgColorMatrix } from '../utils/visionSimulation';
+
+/** CSS `filter` value that renders an element as seen with the given vision mode. */
+export const visionFilterStyle = (mode: VisionMode): React.CSSProperties | undefined =>
+  mode === 'normal' ? undefined : { filter: `url(#vision-${mode})` };
+
+/** Hidden SVG filter definitions referenced by `visionFilterStyle`. */
+export const VisionFilters: React.FC = () => (
+  <svg aria-hidden="true" className="absolute w-0 h-0 overflow-hidden">
+    <defs>
+      {(Object.keys(VISION_MATRICES) as VisionDeficiency[]).map(deficiency => (
+        <filter key={deficiency} id={`vision-${deficiency}`} colorInterpolationFilters="linearRGB">
+          <feColorMatrix type="matrix" values={toSvgColorMatrix(deficiency)} />
+        </filter>
+      ))}
+    </defs>
+  </svg>
+);
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { AiCacheEntry, listAiCache, subscribeAiCache } from '../utils/aiColorService';
+
+interface UseAiCacheReturn {
+  entries: AiCacheEntry[];
+  isLoaded: boolean;
+}
+
+export function useAiCache(): UseAiCacheReturn {
+  const [entries, setEntries] = useState<AiCacheEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listAiCache().then(list => {
+        if (cancelled) return;
+        setEntries(list);
+        setIsLoaded(true);
+      });
+    };
+    refresh();
+    const unsubscribe = subscribeAiCache(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { entries, isLoaded };
+}
@@ -1,51 +1,120 @@
-import { useState, useEffect, useCallback } from 'react';
-import { fetchAiCmykBatch, AiPrintResult, getCachedResult } from '../utils/aiColorService';
-import { getPrintConversions } from '../utils/colorUtils';
-import { ColorRecord, PrintConversion } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  fetchAiCmykBatch, AiPrintResult, getCachedResult, isAbortError, resolvePrintConversion, ResolvedPrintConversion, subscribeAiCache,
+} from '../utils/aiColorService';
+import { DEFAULT_INK_SETTINGS } from '../utils/inkCoverage';
+import { useAiSettings } from './useAiSettings';
+import { DEFAULT_PRESS_PROFILE } from '../utils/pressProfiles';
+import { CmykValues, ColorRecord, InkSettings, PressProfile } from '../types';
 
 interface UseAiCmykReturn {
-  getResult: (hex: string) => PrintConversion & { source?: string };
+  /** Pass the record's lockedCmyk: a locked color skips the AI and heuristic recipes entirely. */
+  getResult: (hex: string, lockedCmyk?: CmykValues) => ResolvedPrintConversion;
+  /** True while the AI recipe for this unlocked color is still being fetched. */
+  isPending: (hex: string, lockedCmyk?: CmykValues) => boolean;
   isLoading: boolean;
 }
 
-export function useAiCmyk(colors: ColorRecord[]): UseAiCmykReturn {
+interface PendingFetch {
+  hexes: string[];
+  controller: AbortController;
+}
+
+const withoutHexes = (pending: Set<string>, hexes: { has: (hex: string) => boolean }) =>
+  new Set(Array.from(pending).filter(hex => !hexes.has(hex)));
+
+export function useAiCmyk(
+  colors: ColorRecord[],
+  ink: InkSettings = DEFAULT_INK_SETTINGS,
+  press: PressProfile = DEFAULT_PRESS_PROFILE
+): UseAiCmykReturn {
+  // Results are keyed by contextKey so switching press, black generation or provider never shows another's recipe
   const [aiResults, setAiResults] = useState<Map<string, AiPrintResult>>(new Map());
-  const [isLoading, setIsLoading] = useState(false);
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  // Hexes already asked for under the current press, black generation and provider
+  const requestedRef = useRef<Set<string>>(new Set());
+  const fetchesRef = useRef<PendingFetch[]>([]);
 
-  const hexKey = colors.map(c => c.hex).join(',');
+  // Sorted and deduplicated, so reordering or duplicating a color doesn't fetch again; locked colors never need asking
+  const hexKey = Array.from(new Set(colors.filter(c => !c.lockedCmyk).map(c => c.hex))).sort().join(',');
+  // A different provider or model is worth asking about colors the last one answered heuristically
+  const { settings } = useAiSettings();
+  const providerKey = `${settings.provider}|${settings.model}|${settings.baseUrl}|${settings.apiKey}`;
+  const contextKey = `${press.id}|${ink.blackGeneration}|${providerKey}`;
+
+  // A new press, black generation or provider starts over, dropping the old results; so does unmounting
+  useEffect(() => () => {
+    fetchesRef.current.forEach(f => f.controller.abort());
+    fetchesRef.current = [];
+    requestedRef.current = new Set();
+    setPending(new Set());
+    setAiResults(new Map());
+  }, [contextKey]);
 
   useEffect(() => {
-    if (colors.length === 0) return;
+    const wanted = new Set(hexKey ? hexKey.split(',') : []);
+
+    // Cancel fetches whose colors are all gone, e.g. after switching collections
+    fetchesRef.current = fetchesRef.current.filter(f => {
+      if (f.hexes.some(hex => wanted.has(hex))) return true;
+      f.controller.abort();
+      f.hexes.forEach(hex => requestedRef.current.delete(hex));
+      setPending(prev => withoutHexes(prev, new Set(f.hexes)));
+      return false;
+    });
 
-    let cancelled = false;
-    setIsLoading(true);
+    const missing = Array.from(wanted).filter(hex => !requestedRef.current.has(hex));
+    if (missing.length === 0) return;
+    missing.forEach(hex => requestedRef.current.add(hex));
+    setPending(prev => new Set([...prev, ...missing]));
 
-    fetchAiCmykBatch(colors.map(c => c.hex)).then(results => {
-      if (!cancelled) {
+    const request: PendingFetch = { hexes: missing, controller: new AbortController() };
+    fetchesRef.current.push(request);
+    const { signal } = request.controller;
+
+    fetchAiCmykBatch(missing, ink, press, {
+      signal,
+      onResults: results => {
+        if (signal.aborted) return;
         setAiResults(prev => {
           const next = new Map(prev);
-          for (const [k, v] of results) next.set(k, v);
+          for (const [k, v] of results) next.set(`${contextKey}:${k}`, v);
           return next;
         });
-        setIsLoading(false);
+        setPending(prev => withoutHexes(prev, results));
+      },
+    }).catch(err => {
+      if (!isAbortError(err)) console.warn('AI CMYK fetch failed:', err);
+    }).finally(() => {
+      fetchesRef.current = fetchesRef.current.filter(f => f !== request);
+      if (!signal.aborted) setPending(prev => withoutHexes(prev, new Set(missing)));
+    });
+  }, [hexKey, contextKey]);
+
+  // Pick up results fetched by another window or re-run from the cache panel
+  useEffect(() => subscribeAiCache(() => {
+    setAiResults(prev => {
+      let next = prev;
+      for (const c of colors) {
+        const key = `${contextKey}:${c.hex}`;
+        const cached = getCachedResult(c.hex, ink, press);
+        if (!cached || prev.get(key) === cached) continue;
+        if (next === prev) next = new Map(prev);
+        next.set(key, cached);
       }
-    }).catch(() => {
-      if (!cancelled) setIsLoading(false);
+      return next;
     });
+  }), [hexKey, contextKey]);
 
-    return () => { cancelled = true; };
-  }, [hexKey]);
+  const getResult = useCallback((hex: string, lockedCmyk?: CmykValues): ResolvedPrintConversion => {
+    const normalized = hex.toUpperCase().startsWith('#') ? hex.toUpperCase() : `#${hex.toUpperCase()}`;
+    return resolvePrintConversion(normalized, ink, press, lockedCmyk, aiResults.get(`${contextKey}:${normalized}`));
+  }, [aiResults, ink, press, contextKey]);
 
-  const getResult = useCallback((hex: string): PrintConversion & { source?: string } => {
+  const isPending = useCallback((hex: string, lockedCmyk?: CmykValues) => {
     const normalized = hex.toUpperCase().startsWith('#') ? hex.toUpperCase() : `#${hex.toUpperCase()}`;
-    const aiResult = aiResults.get(normalized);
-    if (aiResult) return aiResult;
-    // Check if cache has it (from localStorage hydration)
-    const cached = getCachedResult(hex);
-    if (cached) return cached;
-    // Synchronous fallback
-    return { ...getPrintConversions(hex), source: 'heuristic' };
-  }, [aiResults]);
-
-  return { getResult, isLoading };
+    return !lockedCmyk && pending.has(normalized);
+  }, [pending]);
+
+  return { getResult, isPending, isLoading: pending.size > 0 };
 }
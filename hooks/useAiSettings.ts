@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { AiSettings, getAiSettings, isAiConfigured, setAiSettings, subscribeAiSettings } from '../utils/aiProviders';
+
+interface UseAiSettingsReturn {
+  settings: AiSettings;
+  saveSettings: (settings: AiSettings) => void;
+  /** False until a provider (or Off) has been chosen and saved. */
+  isConfigured: boolean;
+}
+
+export function useAiSettings(): UseAiSettingsReturn {
+  const [settings, setSettings] = useState<AiSettings>(getAiSettings);
+  const [isConfigured, setIsConfigured] = useState(isAiConfigured);
+
+  useEffect(() => subscribeAiSettings(next => {
+    setSettings(next);
+    setIsConfigured(true);
+  }), []);
+
+  return { settings, saveSettings: setAiSettings, isConfigured };
+}
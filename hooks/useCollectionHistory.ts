@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Collection } from '../types';
+import {
+  describeStorageError, getMigrationNotice, loadCollections, loadHistory, markCollectionsSaved, saveCollections, saveHistory, StoredHistory,
+} from '../utils/storage';
+import { applyCollectionChanges, diffCollections, postSyncMessage, subscribeSync } from '../utils/tabSync';
+
+const HISTORY_LIMIT = 50;
+const TOAST_DURATION_MS = 6000;
+// Undo steps are persisted nearest first up to this much JSON, a little while after the last edit
+const HISTORY_SAVE_BUDGET = 2_000_000;
+const HISTORY_SAVE_DELAY_MS = 1000;
+
+type CollectionsUpdate = Collection[] | ((prev: Collection[]) => Collection[]);
+
+interface HistoryState {
+  past: Collection[][];
+  present: Collection[];
+  future: Collection[][];
+}
+
+interface UndoToast {
+  id: number;
+  label: string;
+}
+
+interface UseCollectionHistoryReturn {
+  collections: Collection[];
+  /** Applies an edit as one undo step; a label also raises the "Undo" toast. */
+  setCollections: (update: CollectionsUpdate, label?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  toast: UndoToast | null;
+  dismissToast: () => void;
+  /** False until the stored collections have been read or failed to be; nothing is saved unless the read succeeded. */
+  isLoaded: boolean;
+  /** Why the last load or save failed, cleared by the next successful load or save. */
+  saveError: string | null;
+  /** Reads storage again after a failed load, otherwise writes the collections again. */
+  retrySave: () => void;
+}
+
+// Snapshots are never mutated, so each one is measured once
+const snapshotSizes = new WeakMap<Collection[], number>();
+
+const snapshotSize = (snapshot: Collection[]) => {
+  let size = snapshotSizes.get(snapshot);
+  if (size === undefined) {
+    size = JSON.stringify(snapshot).length;
+    snapshotSizes.set(snapshot, size);
+  }
+  return size;
+};
+
+const trimToBudget = ({ past, future }: StoredHistory): StoredHistory => {
+  let remaining = HISTORY_SAVE_BUDGET;
+  const fits = (snapshot: Collection[]) => (remaining -= snapshotSize(snapshot)) >= 0;
+  let start = past.length;
+  while (start > 0 && fits(past[start - 1])) start--;
+  let end = 0;
+  while (end < future.length && fits(future[end])) end++;
+  return { past: past.slice(start), future: future.slice(0, end) };
+};
+
+export function useCollectionHistory(defaults: Collection[]): UseCollectionHistoryReturn {
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: defaults, future: [] });
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // After a failed load the app works on the defaults without saving, so stored data is never overwritten
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const canSave = isLoaded && !loadFailed;
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadCollections(), loadHistory()]).then(([stored, { past, future }]) => {
+      if (cancelled) return;
+      setHistory({ past: past.slice(-HISTORY_LIMIT), present: stored ?? defaults, future: future.slice(0, HISTORY_LIMIT) });
+      setLoadFailed(false);
+      setSaveError(getMigrationNotice());
+      setIsLoaded(true);
+    }).catch(e => {
+      if (cancelled) return;
+      console.warn('Failed to load collections:', e);
+      setLoadFailed(true);
+      setSaveError(describeStorageError(e));
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [loadAttempt]);
+
+  const persist = useCallback((collections: Collection[]) => {
+    // A successful save clears earlier errors, but not data the migration left behind
+    saveCollections(collections).then(() => setSaveError(getMigrationNotice())).catch(e => {
+      console.warn('Failed to save collections:', e);
+      setSaveError(describeStorageError(e));
+    });
+  }, []);
+
+  // The collections as other windows know them; only differences from this are broadcast
+  const syncedRef = useRef<Collection[] | null>(null);
+
+  useEffect(() => {
+    if (!canSave) return;
+    persist(history.present);
+    const changes = syncedRef.current && diffCollections(syncedRef.current, history.present);
+    syncedRef.current = history.present;
+    if (changes) postSyncMessage({ type: 'collections', ...changes });
+  }, [canSave, history.present, persist]);
+
+  // Another window's edits replace only the collections it touched, in the undo stacks too,
+  // so undoing here never reverts work done over there
+  useEffect(() => {
+    if (!isLoaded) return;
+    return subscribeSync(message => {
+      if (message.type !== 'collections') return;
+      if (syncedRef.current) syncedRef.current = applyCollectionChanges(syncedRef.current, message);
+      markCollectionsSaved(message);
+      setHistory(prev => {
+        const rebase = (snapshot: Collection[]) => applyCollectionChanges(snapshot, message);
+        return { past: prev.past.map(rebase), present: rebase(prev.present), future: prev.future.map(rebase) };
+      });
+    });
+  }, [isLoaded]);
+
+  // Undo history is a convenience; failing to keep it is not worth surfacing
+  useEffect(() => {
+    if (!canSave) return;
+    const timer = window.setTimeout(() => {
+      saveHistory(trimToBudget(history)).catch(e => console.warn('Failed to save undo history:', e));
+    }, HISTORY_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [canSave, history.past, history.future]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = window.setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
+
+  const setCollections = useCallback((update: CollectionsUpdate, label?: string) => {
+    setHistory(prev => {
+      const next = typeof update === 'function' ? update(prev.present) : update;
+      if (next === prev.present) return prev;
+      return { past: [...prev.past, prev.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+    });
+    if (label) setToast({ id: Date.now(), label });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future].slice(0, HISTORY_LIMIT),
+      };
+    });
+    setToast(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    collections: history.present,
+    setCollections,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    toast,
+    dismissToast: useCallback(() => setToast(null), []),
+    isLoaded,
+    saveError,
+    retrySave: useCallback(() => {
+      if (loadFailed) setLoadAttempt(n => n + 1);
+      else persist(history.present);
+    }, [loadFailed, persist, history.present]),
+  };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  OUTPUT_PROFILE_PRESETS, CUSTOM_PROFILE_ID, NO_PROFILE_ID, OutputProfilePreset, setActiveOutputProfile,
+  fetchPresetProfile, findAvailablePresets, loadCustomProfile, restoreCustomProfile,
+} from '../utils/colorManagement';
+import { IccProfile } from '../utils/iccProfile';
+import { RenderingIntent } from '../types';
+
+const STORAGE_KEY_PROFILE = 'hexviewer_output_profile';
+const STORAGE_KEY_INTENT = 'hexviewer_rendering_intent';
+
+type ProfileStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface UseIccProfileReturn {
+  profileId: string;
+  intent: RenderingIntent;
+  status: ProfileStatus;
+  error: string | null;
+  customName: string | null;
+  /** Presets whose profile file is deployed, plus the no-profile option. */
+  presets: OutputProfilePreset[];
+  /** Bumped whenever the active transform changes; list it in memo deps that convert through it. */
+  version: number;
+  setProfileId: (id: string) => void;
+  setIntent: (intent: RenderingIntent) => void;
+  uploadProfile: (file: File) => Promise<void>;
+}
+
+const readSetting = (key: string, fallback: string) => {
+  try {
+    return localStorage.getItem(key) || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeSetting = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (e) {
+    console.warn('Failed to save color settings to localStorage:', e);
+  }
+};
+
+export function useIccProfile(): UseIccProfileReturn {
+  const [profileId, setProfileIdState] = useState(() => readSetting(STORAGE_KEY_PROFILE, NO_PROFILE_ID));
+  const [intent, setIntentState] = useState(() => readSetting(STORAGE_KEY_INTENT, 'relative-bpc') as RenderingIntent);
+  const [custom, setCustom] = useState<{ name: string; profile: IccProfile } | null>(restoreCustomProfile);
+  const [loaded, setLoaded] = useState<{ id: string; profile: IccProfile } | null>(null);
+  const [status, setStatus] = useState<ProfileStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const [presets, setPresets] = useState(() => OUTPUT_PROFILE_PRESETS.filter(p => !p.url));
+
+  // Only offer presets whose file was deployed; a remembered one that is gone falls back to no profile
+  useEffect(() => {
+    let cancelled = false;
+    findAvailablePresets().then(available => {
+      if (cancelled) return;
+      setPresets(available);
+      setProfileIdState(id => id === CUSTOM_PROFILE_ID || available.some(p => p.id === id) ? id : NO_PROFILE_ID);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Fetch preset profiles on demand
+  useEffect(() => {
+    if (profileId === CUSTOM_PROFILE_ID || loaded?.id === profileId) return;
+    const preset = OUTPUT_PROFILE_PRESETS.find(p => p.id === profileId);
+    if (!preset?.url) {
+      setLoaded(null);
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    fetchPresetProfile(preset).then(profile => {
+      if (cancelled) return;
+      setLoaded({ id: profileId, profile });
+    }).catch(err => {
+      if (cancelled) return;
+      console.warn('Failed to load output profile:', err);
+      setLoaded(null);
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    });
+
+    return () => { cancelled = true; };
+  }, [profileId]);
+
+  // Apply the active profile + intent to the shared conversion path
+  useEffect(() => {
+    const profile = profileId === CUSTOM_PROFILE_ID
+      ? custom?.profile ?? null
+      : loaded?.id === profileId ? loaded.profile : null;
+    const name = profileId === CUSTOM_PROFILE_ID
+      ? custom?.name ?? 'Custom profile'
+      : OUTPUT_PROFILE_PRESETS.find(p => p.id === profileId)?.name ?? profileId;
+
+    try {
+      setActiveOutputProfile(profile, name, intent);
+      if (profile) {
+        setStatus('ready');
+        setError(null);
+      } else if (profileId === NO_PROFILE_ID) {
+        setStatus('idle');
+        setError(null);
+      }
+    } catch (err) {
+      setActiveOutputProfile(null, name, intent);
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+    setVersion(v => v + 1);
+  }, [profileId, intent, loaded, custom]);
+
+  const setProfileId = useCallback((id: string) => {
+    setProfileIdState(id);
+    writeSetting(STORAGE_KEY_PROFILE, id);
+  }, []);
+
+  const setIntent = useCallback((next: RenderingIntent) => {
+    setIntentState(next);
+    writeSetting(STORAGE_KEY_INTENT, next);
+  }, []);
+
+  const uploadProfile = useCallback(async (file: File) => {
+    try {
+      const profile = await loadCustomProfile(file);
+      setCustom({ name: profile.description || file.name, profile });
+      setProfileId(CUSTOM_PROFILE_ID);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+  }, [setProfileId]);
+
+  return {
+    profileId, intent, status, error, version,
+    customName: custom?.name ?? null,
+    presets,
+    setProfileId, setIntent, uploadProfile,
+  };
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { DEFAULT_EXTRACTION_OPTIONS, ExtractedColor, ExtractionOptions } from '../utils/paletteExtraction';
+import type { ExtractionRequest } from '../workers/paletteExtraction.worker';
+
+// Images are downscaled before clustering; dominant colors survive and the worker stays fast
+const MAX_SAMPLE_SIDE = 200;
+
+interface UseImagePaletteReturn {
+  fileName: string | null;
+  previewUrl: string | null;
+  colors: ExtractedColor[];
+  options: ExtractionOptions;
+  status: 'idle' | 'working' | 'ready' | 'error';
+  error: string | null;
+  loadImage: (file: File) => void;
+  setOptions: (options: ExtractionOptions) => void;
+  clear: () => void;
+}
+
+const readPixels = async (file: File): Promise<Uint8ClampedArray> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SAMPLE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+export function useImagePalette(): UseImagePaletteReturn {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [pixels, setPixels] = useState<Uint8ClampedArray | null>(null);
+  const [colors, setColors] = useState<ExtractedColor[]>([]);
+  const [options, setOptions] = useState<ExtractionOptions>(DEFAULT_EXTRACTION_OPTIONS);
+  const [status, setStatus] = useState<UseImagePaletteReturn['status']>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    let cancelled = false;
+    setStatus('working');
+    readPixels(file).then(data => {
+      if (!cancelled) setPixels(data);
+    }).catch(err => {
+      if (cancelled) return;
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Could not read image');
+    });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!pixels) return;
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/paletteExtraction.worker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = workerRef.current;
+    const id = ++requestIdRef.current;
+    setStatus('working');
+
+    // Only the latest request's answer is applied
+    worker.onmessage = (event: MessageEvent<{ id: number; colors?: ExtractedColor[]; error?: string }>) => {
+      if (event.data.id !== requestIdRef.current) return;
+      if (event.data.error) {
+        setStatus('error');
+        setError(event.data.error);
+      } else {
+        setColors(event.data.colors ?? []);
+        setStatus('ready');
+        setError(null);
+      }
+    };
+    // A worker that failed to load or crashed is dropped, so the next request starts a fresh one
+    const fail = (message: string) => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      if (id !== requestIdRef.current) return;
+      setStatus('error');
+      setError(message);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message || 'Color extraction failed');
+    };
+    worker.onmessageerror = () => fail('Color extraction returned an unreadable answer');
+    const request: ExtractionRequest = { id, pixels: pixels.slice(), options };
+    worker.postMessage(request, [request.pixels.buffer]);
+  }, [pixels, options]);
+
+  const loadImage = useCallback((next: File) => {
+    if (!next.type.startsWith('image/')) {
+      setStatus('error');
+      setError(`${next.name} is not an image`);
+      return;
+    }
+    setError(null);
+    setColors([]);
+    setFile(next);
+  }, []);
+
+  const clear = useCallback(() => {
+    requestIdRef.current++;
+    setFile(null);
+    setPreviewUrl(null);
+    setPixels(null);
+    setColors([]);
+    setStatus('idle');
+    setError(null);
+  }, []);
+
+  return { fileName: file?.name ?? null, previewUrl, colors, options, status, error, loadImage, setOptions, clear };
+}
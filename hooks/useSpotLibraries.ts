@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  BUNDLED_SPOT_LIBRARIES, fetchBundledSpotLibrary, parseCustomSpotLibraries, parseSpotLibrary,
+} from '../utils/spotLibraries';
+import { deleteSpotLibrary, describeStorageError, loadSpotLibraries, putSpotLibrary } from '../utils/storage';
+import { SpotLibrary } from '../types';
+
+interface UseSpotLibrariesReturn {
+  libraries: SpotLibrary[];
+  error: string | null;
+  addLibraryFile: (file: File) => Promise<void>;
+  removeLibrary: (id: string) => void;
+}
+
+export function useSpotLibraries(): UseSpotLibrariesReturn {
+  const [bundled, setBundled] = useState<SpotLibrary[]>([]);
+  const [custom, setCustom] = useState<SpotLibrary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.allSettled(BUNDLED_SPOT_LIBRARIES.map(fetchBundledSpotLibrary)).then(results => {
+      if (cancelled) return;
+      const loaded: SpotLibrary[] = [];
+      for (const result of results) {
+        if (result.status === 'fulfilled') loaded.push(result.value);
+        else console.warn('Failed to load spot library:', result.reason);
+      }
+      setBundled(loaded);
+    });
+    loadSpotLibraries().then(stored => {
+      if (cancelled) return;
+      // Libraries added while loading are newer than the stored copies
+      setCustom(prev => [...parseCustomSpotLibraries(stored).filter(l => !prev.some(p => p.id === l.id)), ...prev]);
+    }).catch(e => {
+      if (!cancelled) setError(`Saved spot libraries could not be loaded: ${describeStorageError(e)}`);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const addLibraryFile = useCallback(async (file: File) => {
+    let library: SpotLibrary;
+    try {
+      const fallbackId = `custom-${file.name.replace(/\.json$/i, '')}`;
+      library = { ...parseSpotLibrary(JSON.parse(await file.text()), fallbackId), custom: true };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    try {
+      await putSpotLibrary(library);
+      setError(null);
+    } catch (e) {
+      // Still usable now, but say it will be gone after a reload
+      setError(`${library.name} could not be saved and will be gone after a reload: ${describeStorageError(e)}`);
+    }
+    setCustom(prev => [...prev.filter(l => l.id !== library.id), library]);
+  }, []);
+
+  const removeLibrary = useCallback((id: string) => {
+    setCustom(prev => prev.filter(l => l.id !== id));
+    deleteSpotLibrary(id).catch(e => setError(`The library could not be removed from storage: ${describeStorageError(e)}`));
+  }, []);
+
+  return { libraries: [...bundled, ...custom], error, addLibraryFile, removeLibrary };
+}
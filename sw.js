@@ -1,5 +1,7 @@
 
 const CACHE_NAME = 'hexviewer-v2';
+// Content shared into the app (manifest share_target) waits here until the page picks it up
+const SHARE_CACHE_NAME = 'hexviewer-share';
 const ASSETS = [
   '/',
   '/index.html',
@@ -19,13 +21,30 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((keys) => {
       return Promise.all(
-        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+        keys.filter((key) => key !== CACHE_NAME && key !== SHARE_CACHE_NAME).map((key) => caches.delete(key))
       );
     }).then(() => self.clients.claim())
   );
 });
 
+const receiveShare = async (request) => {
+  const form = await request.formData();
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  const text = [form.get('title'), form.get('text'), form.get('url')].filter(Boolean).join('\n');
+  if (text) await cache.put('shared/text', new Response(text));
+  const file = form.get('palettes');
+  if (file && typeof file !== 'string') {
+    await cache.put('shared/file', new Response(file, { headers: { 'X-File-Name': encodeURIComponent(file.name) } }));
+  }
+  return Response.redirect('./index.html?shared=1', 303);
+};
+
 self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method === 'POST' && url.pathname.endsWith('/share-target')) {
+    event.respondWith(receiveShare(event.request));
+    return;
+  }
   event.respondWith(
     caches.match(event.request).then((response) => {
       return response || fetch(event.request);
@@ -2,6 +2,24 @@
 export interface ColorRecord {
   id: string;
   hex: string;
+  name?: string;
+  /** Roles such as "primary" or "background", plus free-form tags. */
+  tags?: string[];
+  notes?: string;
+  spot?: SpotAssignment;
+  /** Manually locked CMYK that replaces the computed recipe everywhere. */
+  lockedCmyk?: CmykValues;
+}
+
+/** A spot ink chosen to represent a color, copied from its library entry. */
+export interface SpotAssignment {
+  libraryId: string;
+  libraryName: string;
+  code: string;
+  name?: string;
+  hex: string;
+  /** The ink's published CMYK build, when its library or swatch file gives one. */
+  cmyk?: CmykValues;
 }
 
 export interface Collection {
@@ -9,6 +27,7 @@ export interface Collection {
   name: string;
   colors: ColorRecord[];
   selectedIds: string[];
+  pressProfileId?: string;
 }
 
 export enum ContrastType {
@@ -16,6 +35,44 @@ export enum ContrastType {
   DARK = 'DARK'
 }
 
+export interface RgbValues {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface XyzValues {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** CIELAB (D50) and OKLab share the same shape: lightness plus two opponent axes. */
+export interface LabValues {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/** Cylindrical form of a Lab space; hue in degrees. */
+export interface LchValues {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export interface HslValues {
+  h: number;
+  s: number;
+  l: number;
+}
+
+export interface HsvValues {
+  h: number;
+  s: number;
+  v: number;
+}
+
 export interface CmykValues {
   c: number;
   m: number;
@@ -30,6 +87,51 @@ export interface PrintConversion {
     smart_print_recipe: CmykValues & { 
       modifications_made: string;
       paper_type: string;
+      total_ink: number;
+      tac_limit: number;
+      tac_adjusted: boolean;
+      /** Over tac_limit and left that way, as a locked build is; shown as a warning. */
+      tac_exceeded: boolean;
     };
   };
 }
+
+export type RenderingIntent = 'perceptual' | 'relative' | 'relative-bpc';
+
+export type BlackGeneration = 'ucr' | 'gcr-light' | 'gcr-medium' | 'gcr-heavy';
+
+export interface InkSettings {
+  tacLimit: number;
+  blackGeneration: BlackGeneration;
+}
+
+export type PaperClass = 'coated' | 'uncoated' | 'newsprint' | 'digital';
+
+export interface PressProfile {
+  id: string;
+  name: string;
+  paper: PaperClass;
+  paperType: string;
+  /** Tone value increase at the 50% patch, in percentage points. */
+  dotGain: number;
+  tacLimit: number;
+  /** Paper white as CIELAB (D50). */
+  paperWhite: LabValues;
+}
+
+export interface SpotColor {
+  code: string;
+  name?: string;
+  hex: string;
+  lab: LabValues;
+  cmyk?: CmykValues;
+}
+
+export interface SpotLibrary {
+  id: string;
+  name: string;
+  description?: string;
+  colors: SpotColor[];
+  /** True for libraries loaded by the user rather than bundled with the app. */
+  custom?: boolean;
+}
@@ -0,0 +1,267 @@
+import { CmykValues, LabValues } from '../types';
+import { cmykToStandardRgb } from './colorManagement';
+import { labToRgb } from './colorScience';
+import { hexToRgb, rgbToHex } from './colorUtils';
+
+// Adobe Swatch Exchange (.ase) and Photoshop color swatch (.aco) files.
+// Both are big-endian; strings are length-prefixed, null-terminated UTF-16.
+
+export interface SwatchEntry {
+  name: string;
+  hex: string;
+  /** Set when the swatch was defined in CMYK; exported with the print recipe. */
+  cmyk?: CmykValues;
+  spot?: boolean;
+}
+
+export interface SwatchGroup {
+  name: string;
+  swatches: SwatchEntry[];
+}
+
+export type SwatchModel = 'rgb' | 'cmyk';
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+const ASE_SPOT = 1;
+const ASE_NORMAL = 2;
+
+const ACO_RGB = 0;
+const ACO_CMYK = 2;
+const ACO_LAB = 7;
+const ACO_GRAY = 8;
+
+class Reader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  get done() { return this.offset >= this.view.byteLength; }
+  get position() { return this.offset; }
+  seek(offset: number) { this.offset = offset; }
+
+  u16() { const v = this.view.getUint16(this.offset); this.offset += 2; return v; }
+  u32() { const v = this.view.getUint32(this.offset); this.offset += 4; return v; }
+  f32() { const v = this.view.getFloat32(this.offset); this.offset += 4; return v; }
+  ascii(length: number) {
+    let s = '';
+    for (let i = 0; i < length; i++) s += String.fromCharCode(this.view.getUint8(this.offset++));
+    return s;
+  }
+  /** UTF-16 string whose length (in code units) includes the terminating null. */
+  utf16(length: number) {
+    let s = '';
+    for (let i = 0; i < length; i++) {
+      const code = this.u16();
+      if (code !== 0) s += String.fromCharCode(code);
+    }
+    return s;
+  }
+}
+
+class Writer {
+  private bytes: number[] = [];
+
+  u16(v: number) { this.bytes.push((v >> 8) & 0xff, v & 0xff); }
+  u32(v: number) { this.u16((v >>> 16) & 0xffff); this.u16(v & 0xffff); }
+  f32(v: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, v);
+    for (let i = 0; i < 4; i++) this.bytes.push(view.getUint8(i));
+  }
+  ascii(s: string) { for (const ch of s) this.bytes.push(ch.charCodeAt(0)); }
+  /** Null-terminated UTF-16 code units, without a length. */
+  utf16z(s: string) {
+    for (let i = 0; i < s.length; i++) this.u16(s.charCodeAt(i));
+    this.u16(0);
+  }
+  /** ASE string: a u16 length that counts the terminating null, then the code units. */
+  utf16(s: string) {
+    this.u16(s.length + 1);
+    this.utf16z(s);
+  }
+  // A spread would pass every byte as an argument and overflow the stack on large files
+  append(other: Writer) { for (const byte of other.bytes) this.bytes.push(byte); }
+  get length() { return this.bytes.length; }
+  toBlob(type: string) { return new Blob([new Uint8Array(this.bytes)], { type }); }
+}
+
+const clampPercent = (v: number) => Math.max(0, Math.min(100, Math.round(v)));
+
+const labHex = (lab: LabValues) => rgbToHex(labToRgb(lab));
+
+export const parseAse = (buffer: ArrayBuffer, fallbackName: string): SwatchGroup[] => {
+  const reader = new Reader(buffer);
+  if (reader.ascii(4) !== 'ASEF') throw new Error('Not an Adobe Swatch Exchange file');
+  reader.u32(); // version 1.0
+  const blockCount = reader.u32();
+
+  const loose: SwatchGroup = { name: fallbackName, swatches: [] };
+  const groups: SwatchGroup[] = [];
+  let current: SwatchGroup | null = null;
+
+  for (let i = 0; i < blockCount && !reader.done; i++) {
+    const type = reader.u16();
+    const length = reader.u32();
+    const end = reader.position + length;
+
+    if (type === ASE_GROUP_START) {
+      current = { name: reader.utf16(reader.u16()) || fallbackName, swatches: [] };
+      groups.push(current);
+    } else if (type === ASE_GROUP_END) {
+      current = null;
+    } else if (type === ASE_COLOR) {
+      const name = reader.utf16(reader.u16());
+      const model = reader.ascii(4).trim().toUpperCase();
+      let entry: SwatchEntry | null = null;
+      if (model === 'RGB') {
+        const [r, g, b] = [reader.f32(), reader.f32(), reader.f32()].map(v => v * 255);
+        entry = { name, hex: rgbToHex({ r, g, b }) };
+      } else if (model === 'CMYK') {
+        const [c, m, y, k] = [reader.f32(), reader.f32(), reader.f32(), reader.f32()].map(v => clampPercent(v * 100));
+        entry = { name, hex: rgbToHex(cmykToStandardRgb({ c, m, y, k })), cmyk: { c, m, y, k } };
+      } else if (model === 'LAB') {
+        entry = { name, hex: labHex({ l: reader.f32() * 100, a: reader.f32(), b: reader.f32() }) };
+      } else if (model === 'GRAY') {
+        const v = reader.f32() * 255;
+        entry = { name, hex: rgbToHex({ r: v, g: v, b: v }) };
+      }
+      if (entry) {
+        entry.spot = reader.u16() === ASE_SPOT;
+        (current ?? loose).swatches.push(entry);
+      }
+    }
+    reader.seek(end);
+  }
+
+  return [...(loose.swatches.length ? [loose] : []), ...groups].filter(g => g.swatches.length > 0);
+};
+
+export const writeAse = (groups: SwatchGroup[], model: SwatchModel): Blob => {
+  const body = new Writer();
+  let blockCount = 0;
+
+  const block = (type: number, content: Writer) => {
+    body.u16(type);
+    body.u32(content.length);
+    body.append(content);
+    blockCount++;
+  };
+
+  for (const group of groups) {
+    const start = new Writer();
+    start.utf16(group.name);
+    block(ASE_GROUP_START, start);
+
+    for (const swatch of group.swatches) {
+      const entry = new Writer();
+      entry.utf16(swatch.name);
+      if (model === 'cmyk' && swatch.cmyk) {
+        entry.ascii('CMYK');
+        for (const v of [swatch.cmyk.c, swatch.cmyk.m, swatch.cmyk.y, swatch.cmyk.k]) entry.f32(v / 100);
+      } else {
+        const { r, g, b } = hexToRgb(swatch.hex);
+        entry.ascii('RGB ');
+        for (const v of [r, g, b]) entry.f32(v / 255);
+      }
+      entry.u16(swatch.spot ? ASE_SPOT : ASE_NORMAL);
+      block(ASE_COLOR, entry);
+    }
+
+    block(ASE_GROUP_END, new Writer());
+  }
+
+  const file = new Writer();
+  file.ascii('ASEF');
+  file.u16(1);
+  file.u16(0);
+  file.u32(blockCount);
+  file.append(body);
+  return file.toBlob('application/octet-stream');
+};
+
+/** Reads version 2 (named) data when present, otherwise version 1. */
+export const parseAco = (buffer: ArrayBuffer, fallbackName: string): SwatchGroup[] => {
+  const reader = new Reader(buffer);
+  let version = reader.u16();
+  let count = reader.u16();
+  if (version !== 1 && version !== 2) throw new Error('Not a Photoshop swatch file');
+
+  const readColors = (named: boolean) => {
+    const swatches: SwatchEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const space = reader.u16();
+      const w = reader.u16(), x = reader.u16(), y = reader.u16(), z = reader.u16();
+      let name = '';
+      if (named) {
+        // u32 length in code units, counting the terminating null
+        name = reader.utf16(reader.u32());
+      }
+      let entry: SwatchEntry | null = null;
+      if (space === ACO_RGB) {
+        entry = { name, hex: rgbToHex({ r: w / 257, g: x / 257, b: y / 257 }) };
+      } else if (space === ACO_CMYK) {
+        // 0 is full ink, 65535 is none
+        const [c, m, yy, k] = [w, x, y, z].map(v => clampPercent(100 - v / 655.35));
+        const cmyk = { c, m, y: yy, k };
+        entry = { name, hex: rgbToHex(cmykToStandardRgb(cmyk)), cmyk };
+      } else if (space === ACO_LAB) {
+        const a = x > 0x7fff ? x - 0x10000 : x;
+        const b = y > 0x7fff ? y - 0x10000 : y;
+        entry = { name, hex: labHex({ l: w / 100, a: a / 100, b: b / 100 }) };
+      } else if (space === ACO_GRAY) {
+        const v = 255 - (w / 10000) * 255;
+        entry = { name, hex: rgbToHex({ r: v, g: v, b: v }) };
+      }
+      if (entry) swatches.push({ ...entry, name: entry.name || entry.hex });
+    }
+    return swatches;
+  };
+
+  let swatches = readColors(false);
+  if (!reader.done) {
+    version = reader.u16();
+    count = reader.u16();
+    if (version === 2) swatches = readColors(true);
+  }
+  return swatches.length ? [{ name: fallbackName, swatches }] : [];
+};
+
+/** ACO has no groups, so every swatch is written as one flat list. */
+export const writeAco = (swatches: SwatchEntry[], model: SwatchModel): Blob => {
+  const file = new Writer();
+  const writeColors = (named: boolean) => {
+    file.u16(named ? 2 : 1);
+    file.u16(swatches.length);
+    for (const swatch of swatches) {
+      if (model === 'cmyk' && swatch.cmyk) {
+        file.u16(ACO_CMYK);
+        for (const v of [swatch.cmyk.c, swatch.cmyk.m, swatch.cmyk.y, swatch.cmyk.k]) {
+          file.u16(Math.round((100 - v) * 655.35));
+        }
+      } else {
+        const { r, g, b } = hexToRgb(swatch.hex);
+        file.u16(ACO_RGB);
+        for (const v of [r, g, b, 0]) file.u16(v * 257);
+      }
+      if (named) {
+        file.u32(swatch.name.length + 1);
+        file.utf16z(swatch.name);
+      }
+    }
+  };
+  writeColors(false);
+  writeColors(true);
+  return file.toBlob('application/octet-stream');
+};
+
+/** Dispatches on the file signature rather than the extension. */
+export const parseSwatchFile = (buffer: ArrayBuffer, fallbackName: string): SwatchGroup[] => {
+  const signature = new Uint8Array(buffer.slice(0, 4));
+  const isAse = String.fromCharCode(...signature) === 'ASEF';
+  return isAse ? parseAse(buffer, fallbackName) : parseAco(buffer, fallbackName);
+};
@@ -1,48 +1,147 @@
-import { getPrintConversions, hexToRgb, normalizeHex } from './colorUtils';
-import { PrintConversion } from '../types';
+import { getPrintConversions, getStandardConversion, normalizeHex } from './colorUtils';
+import { applyInkLimit, BLACK_GENERATION_OPTIONS, DEFAULT_INK_SETTINGS, getTotalInk } from './inkCoverage';
+import { DEFAULT_PRESS_PROFILE, describePressProfile, getPressProfile, resolveInkSettings } from './pressProfiles';
+import { deleteAiCacheEntries, loadAiCache, putAiCacheEntries } from './storage';
+import { postSyncMessage, subscribeSync } from './tabSync';
+import {
+  AiProviderId, AiSettings, CompletionRequest, getAiSettings, getProviderInfo, normalizeBaseUrl, ProviderHttpError, requestCompletion,
+  settingsForProvider,
+} from './aiProviders';
+import { checkRecipePlausibility, extractRecipeItems, RECIPE_RESPONSE_SCHEMA, validateRecipeItem } from './aiResponseValidation';
+import { BlackGeneration, CmykValues, InkSettings, PressProfile, PrintConversion } from '../types';
 
 export interface AiPrintResult extends PrintConversion {
-  source: 'ai' | 'heuristic' | 'cache';
+  source: 'ai' | 'ai-rejected' | 'heuristic';
+  /** The model's recipe when it failed the plausibility checks; the heuristic recipe is shown instead. */
+  rejected?: { cmyk: CmykValues; reasons: string[] };
 }
 
-// Two-tier cache: in-memory + localStorage
-const CACHE_KEY = 'hexviewer_ai_cmyk_cache';
-const cache = new Map<string, AiPrintResult>();
+export type ResolvedPrintConversion = PrintConversion & { source: AiPrintResult['source'] | 'locked' };
 
-function hydrateCache() {
-  try {
-    const stored = localStorage.getItem(CACHE_KEY);
-    if (stored) {
-      const entries: [string, AiPrintResult][] = JSON.parse(stored);
-      for (const [k, v] of entries) {
-        cache.set(k, { ...v, source: 'cache' });
-      }
-    }
-  } catch { /* ignore corrupt data */ }
+/** Bump when buildPrompt changes enough that earlier answers should be asked again. */
+export const PROMPT_VERSION = 2;
+
+/** A cached model answer and what produced it. */
+export interface AiCacheEntry {
+  key: string;
+  hex: string;
+  provider: AiProviderId;
+  model: string;
+  /** Normalized base URL of the server that answered; the same model name can differ between servers. */
+  endpoint: string;
+  promptVersion: number;
+  pressId: string;
+  blackGeneration: BlackGeneration;
+  result: AiPrintResult;
+  createdAt: number;
+  lastUsedAt: number;
+  /** Pinned entries never expire and are never evicted. */
+  pinned: boolean;
 }
 
-function persistCache() {
-  try {
-    const entries = Array.from(cache.entries()).slice(-200);
-    localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
-  } catch { /* localStorage full */ }
+// Two-tier LRU cache: in-memory (Map order is least recently used first) + IndexedDB.
+// Only model answers are stored; heuristic results are recomputed every time.
+export const MAX_CACHE_ENTRIES = 200;
+export const CACHE_TTL_DAYS = 30;
+const CACHE_TTL_MS = CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+// Recency is written back at most this often per entry, so re-renders don't rewrite the store
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const cache = new Map<string, AiCacheEntry>();
+
+const isCachedResult = (value: unknown): value is AiPrintResult => {
+  const conversions = (value as AiPrintResult | null)?.conversions;
+  return typeof conversions?.smart_print_recipe?.c === 'number' && typeof conversions?.standard_auto?.c === 'number';
+};
+
+const isCacheEntry = (value: unknown): value is AiCacheEntry => {
+  const entry = value as AiCacheEntry | null;
+  return typeof entry?.key === 'string' && typeof entry.hex === 'string'
+    && typeof entry.createdAt === 'number' && typeof entry.lastUsedAt === 'number'
+    && isCachedResult(entry.result);
+};
+
+const isExpired = (entry: AiCacheEntry, now: number) => !entry.pinned && now - entry.createdAt > CACHE_TTL_MS;
+
+function cacheKey(hex: string, settings: AiSettings, ink: InkSettings, press: PressProfile): string {
+  return [
+    `v${PROMPT_VERSION}`, settings.provider, normalizeBaseUrl(settings.baseUrl), settings.model, press.id, ink.blackGeneration, hex,
+  ].join('|');
+}
+
+/** Drops the least recently used unpinned entries past MAX_CACHE_ENTRIES; returns their keys. */
+function evictLeastRecent(): string[] {
+  const unpinned = Array.from(cache.values()).filter(entry => !entry.pinned);
+  const evicted = unpinned.slice(0, Math.max(0, unpinned.length - MAX_CACHE_ENTRIES)).map(entry => entry.key);
+  evicted.forEach(key => cache.delete(key));
+  return evicted;
 }
 
-hydrateCache();
+const cacheListeners = new Set<() => void>();
+const notifyCacheListeners = () => cacheListeners.forEach(listener => listener());
 
-function clamp(n: number): number {
-  return Math.max(0, Math.min(100, Math.round(n)));
+const cacheReady = loadAiCache().then(rows => {
+  const now = Date.now();
+  // Entries that arrived from other windows while loading are newer, so they stay most recent
+  const arrived = new Map(cache);
+  cache.clear();
+  for (const [key, value] of rows) {
+    if (isCacheEntry(value) && value.key === key && value.promptVersion === PROMPT_VERSION && !isExpired(value, now)) {
+      cache.set(key, value);
+    }
+  }
+  for (const [key, entry] of arrived) {
+    cache.delete(key);
+    cache.set(key, entry);
+  }
+  evictLeastRecent();
+  notifyCacheListeners();
+  // Drop malformed, outdated, expired and evicted rows
+  return deleteAiCacheEntries(rows.map(([key]) => key).filter(key => !cache.has(key)));
+}).catch(e => {
+  console.warn('Failed to load AI cache:', e);
+});
+
+function persistCache(keys: string[], removed: string[] = []) {
+  const entries = keys.flatMap(k => {
+    const value = cache.get(k);
+    return value ? [[k, value] as [string, unknown]] : [];
+  });
+  putAiCacheEntries(entries).catch(e => console.warn('Failed to save AI cache:', e));
+  deleteAiCacheEntries(removed).catch(e => console.warn('Failed to prune AI cache:', e));
+  postSyncMessage({ type: 'ai-cache', entries, removed });
+  notifyCacheListeners();
+}
+
+// Another window already paid for these results; take them instead of asking again
+subscribeSync(message => {
+  if (message.type !== 'ai-cache') return;
+  for (const [k, v] of message.entries) {
+    if (!isCacheEntry(v)) continue;
+    cache.delete(k);
+    cache.set(k, v);
+  }
+  for (const k of message.removed) cache.delete(k);
+  notifyCacheListeners();
+});
+
+/** Notifies when cached results change, here or in another window. */
+export function subscribeAiCache(listener: () => void): () => void {
+  cacheListeners.add(listener);
+  return () => { cacheListeners.delete(listener); };
 }
 
-function heuristicFallback(hex: string): AiPrintResult {
-  return { ...getPrintConversions(hex), source: 'heuristic' };
+function heuristicFallback(hex: string, ink: InkSettings, press: PressProfile): AiPrintResult {
+  return { ...getPrintConversions(hex, ink, press), source: 'heuristic' };
 }
 
-function buildPrompt(hexCodes: string[]): string {
+function buildPrompt(hexCodes: string[], ink: InkSettings, press: PressProfile): string {
   const hexList = hexCodes.map(h => `"${h}"`).join(', ');
+  const { tacLimit } = resolveInkSettings(ink, press);
+  const blackGeneration = BLACK_GENERATION_OPTIONS.find(o => o.id === ink.blackGeneration)?.name;
   return `You are an expert print color technician specializing in offset and digital CMYK printing. For each hex color below, provide an optimized CMYK recipe for professional printing.
 
 Hex codes: [${hexList}]
+Target press and paper: ${describePressProfile(press)}
 
 For EACH color provide:
 1. Optimized C, M, Y, K values (integers 0-100) for vibrant print reproduction. Apply professional knowledge:
@@ -50,129 +149,416 @@ For EACH color provide:
    - Remove cyan from warm colors to prevent mudding/browning
    - Cap magenta for blues to prevent purple shift
    - Remove magenta from greens to keep them clean
-   - Keep total ink coverage under 300%
+   - Keep total ink coverage (C+M+Y+K) at or under ${tacLimit}%
+   - Use ${blackGeneration} black generation for neutral and dark tones
+   - Compensate for the dot gain and paper white of the target stock
    - Account for CMYK gamut being smaller than RGB
 2. A 1-2 sentence explanation of your modifications for a designer audience
-3. Recommended paper type
 
-Respond with ONLY a JSON array, no markdown, no extra text. Each element:
-{"hex":"#XXXXXX","c":0,"m":0,"y":0,"k":0,"explanation":"...","paper":"..."}`;
+Answer every hex code exactly once. Respond with ONLY a JSON object, no markdown, no extra text:
+{"colors":[{"hex":"#XXXXXX","c":0,"m":0,"y":0,"k":0,"explanation":"..."}]}`;
 }
 
-function parseAiResponse(text: string, requestedHexes: string[]): Map<string, AiPrintResult> {
-  const results = new Map<string, AiPrintResult>();
+// Request pacing, shared by every caller so a large library doesn't trip provider rate
+// limits. CHUNK_SIZE also keeps each answer well inside the providers' output token caps.
+const CHUNK_SIZE = 20;
+const MAX_CONCURRENT_REQUESTS = 2;
+const MIN_REQUEST_INTERVAL_MS = 500;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longest wait honored while holding a request slot; a longer Retry-After fails the chunk to the heuristic
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
 
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+let activeRequests = 0;
+let lastRequestAt = 0;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+const waitingRequests: (() => void)[] = [];
+
+function pumpRequestQueue() {
+  if (pumpTimer || activeRequests >= MAX_CONCURRENT_REQUESTS || waitingRequests.length === 0) return;
+  const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    pumpTimer = setTimeout(() => {
+      pumpTimer = null;
+      pumpRequestQueue();
+    }, wait);
+    return;
+  }
+  activeRequests++;
+  lastRequestAt = Date.now();
+  waitingRequests.shift()!();
+  pumpRequestQueue();
+}
+
+/** Waits for a free request slot; call the returned function to give it back. */
+function acquireRequestSlot(signal?: AbortSignal): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(() => {
+        activeRequests--;
+        pumpRequestQueue();
+      });
+    };
+    const onAbort = () => {
+      const i = waitingRequests.indexOf(start);
+      if (i >= 0) waitingRequests.splice(i, 1);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waitingRequests.push(start);
+    pumpRequestQueue();
+  });
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const isRetryable = (err: unknown): err is ProviderHttpError =>
+  err instanceof ProviderHttpError && (err.status === 429 || err.status >= 500);
+
+/**
+ * Sends one completion through the shared queue, retrying rate limits and server
+ * errors with exponential backoff. The slot is held through the backoff so the
+ * other queued chunks don't hit a provider that just asked us to slow down; a
+ * Retry-After past RETRY_MAX_DELAY_MS gives up instead of stalling the queue.
+ */
+async function completeWithRetry(request: CompletionRequest, settings: AiSettings): Promise<string> {
+  const release = await acquireRequestSlot(request.signal);
   try {
-    const cleaned = text.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
-    const parsed: Array<{ hex: string; c: number; m: number; y: number; k: number; explanation: string; paper: string }> = JSON.parse(cleaned);
-
-    for (const item of parsed) {
-      const normalized = normalizeHex(item.hex);
-      const { r, g, b } = hexToRgb(normalized);
-
-      // Compute standard auto CMYK
-      const rP = r / 255, gP = g / 255, bP = b / 255;
-      const kStd = 1 - Math.max(rP, gP, bP);
-      const cStd = kStd === 1 ? 0 : Math.round(((1 - rP - kStd) / (1 - kStd)) * 100);
-      const mStd = kStd === 1 ? 0 : Math.round(((1 - gP - kStd) / (1 - kStd)) * 100);
-      const yStd = kStd === 1 ? 0 : Math.round(((1 - bP - kStd) / (1 - kStd)) * 100);
-
-      results.set(normalized, {
-        input_hex: normalized,
-        conversions: {
-          standard_auto: {
-            c: cStd, m: mStd, y: yStd, k: Math.round(kStd * 100),
-            description: 'Standard mathematical conversion. May appear duller on paper.'
-          },
-          smart_print_recipe: {
-            c: clamp(item.c),
-            m: clamp(item.m),
-            y: clamp(item.y),
-            k: clamp(item.k),
-            modifications_made: item.explanation,
-            paper_type: item.paper || 'Regular Stock',
-          }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestCompletion(request, settings);
+      } catch (err) {
+        if (attempt >= MAX_RETRIES || !isRetryable(err)) throw err;
+        if (err.retryAfterMs !== undefined && err.retryAfterMs > RETRY_MAX_DELAY_MS) throw err;
+        const delay = Math.min(err.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2), RETRY_MAX_DELAY_MS);
+        console.warn(`AI provider returned ${err.status}; retrying in ${(delay / 1000).toFixed(1)}s`);
+        await sleep(delay, request.signal);
+      }
+    }
+  } finally {
+    release();
+  }
+}
+
+export const formatRecipe = ({ c, m, y, k }: CmykValues) => `C${c}/M${m}/Y${y}/K${k}`;
+
+/**
+ * One result per requested hex: valid, plausible items become AI results,
+ * implausible ones 'ai-rejected', and anything missing or malformed falls back
+ * to the heuristic.
+ */
+function parseAiResponse(
+  text: string,
+  requestedHexes: string[],
+  ink: InkSettings,
+  press: PressProfile
+): Map<string, AiPrintResult> {
+  const results = new Map<string, AiPrintResult>();
+  const requested = new Set(requestedHexes);
+  const { tacLimit } = resolveInkSettings(ink, press);
+
+  const items = extractRecipeItems(text);
+  if (!items) console.warn('AI response is not the requested JSON; using heuristic recipes.');
+
+  for (const raw of items ?? []) {
+    const checked = validateRecipeItem(raw, requested);
+    if ('error' in checked) {
+      console.warn(`Ignoring AI recipe item: ${checked.error}`);
+      continue;
+    }
+    const { item } = checked;
+    if (results.has(item.hex)) continue;
+
+    const heuristic = heuristicFallback(item.hex, ink, press);
+    const recipe = { c: item.c, m: item.m, y: item.y, k: item.k };
+    const reasons = checkRecipePlausibility(item.hex, recipe, heuristic.conversions.smart_print_recipe, ink, press);
+    if (reasons.length > 0) {
+      results.set(item.hex, { ...heuristic, source: 'ai-rejected', rejected: { cmyk: recipe, reasons } });
+      continue;
+    }
+    results.set(item.hex, {
+      input_hex: item.hex,
+      conversions: {
+        standard_auto: getStandardConversion(item.hex, press),
+        // Stored as the model gave it; the ink limit is applied when it's shown
+        smart_print_recipe: {
+          ...recipe,
+          modifications_made: item.explanation,
+          paper_type: press.paperType,
+          total_ink: getTotalInk(recipe),
+          tac_limit: tacLimit,
+          tac_adjusted: false,
+          tac_exceeded: false,
         },
-        source: 'ai',
+      },
+      source: 'ai',
+    });
+  }
+
+  for (const hex of requestedHexes) {
+    if (!results.has(hex)) results.set(hex, heuristicFallback(hex, ink, press));
+  }
+
+  return results;
+}
+
+/** Asks the provider about these hexes and caches its answers; a failed request falls back to the heuristic. */
+async function requestRecipes(
+  hexes: string[],
+  ink: InkSettings,
+  press: PressProfile,
+  settings: AiSettings,
+  signal?: AbortSignal
+): Promise<Map<string, AiPrintResult>> {
+  try {
+    const text = await completeWithRetry(
+      { prompt: buildPrompt(hexes, ink, press), hexes, ink, press, schema: RECIPE_RESPONSE_SCHEMA, signal },
+      settings
+    );
+    const parsed = parseAiResponse(text, hexes, ink, press);
+
+    const answered: string[] = [];
+    const now = Date.now();
+    for (const [hex, result] of parsed) {
+      // Heuristic fill-ins get asked again next time; mock answers must not stand in for a real model later
+      if (result.source === 'heuristic' || settings.provider === 'mock') continue;
+      const key = cacheKey(hex, settings, ink, press);
+      const previous = cache.get(key);
+      cache.delete(key);
+      cache.set(key, {
+        key,
+        hex,
+        provider: settings.provider,
+        model: settings.model,
+        endpoint: normalizeBaseUrl(settings.baseUrl),
+        promptVersion: PROMPT_VERSION,
+        pressId: press.id,
+        blackGeneration: ink.blackGeneration,
+        result,
+        createdAt: now,
+        lastUsedAt: now,
+        pinned: previous?.pinned ?? false,
       });
+      answered.push(key);
     }
+    persistCache(answered, evictLeastRecent());
+    return parsed;
   } catch (err) {
-    console.warn('Failed to parse AI response:', err);
-    for (const hex of requestedHexes) {
-      if (!results.has(hex)) {
-        results.set(hex, heuristicFallback(hex));
-      }
-    }
+    if (isAbortError(err)) throw err;
+    console.warn(`AI CMYK fetch from ${getProviderInfo(settings.provider).name} failed, falling back to heuristic:`, err);
+    return new Map(hexes.map(hex => [hex, heuristicFallback(hex, ink, press)]));
   }
+}
 
-  return results;
+export interface AiFetchOptions {
+  signal?: AbortSignal;
+  /** Called as results arrive: cache hits first, then each answered chunk. */
+  onResults?: (results: Map<string, AiPrintResult>) => void;
 }
 
-export async function fetchAiCmykBatch(hexCodes: string[]): Promise<Map<string, AiPrintResult>> {
+/**
+ * Recipes for every hex. Uncached colors are asked for in chunks through the
+ * shared request queue; aborting the signal cancels queued and running
+ * requests and rejects with an AbortError.
+ */
+export async function fetchAiCmykBatch(
+  hexCodes: string[],
+  ink: InkSettings = DEFAULT_INK_SETTINGS,
+  press: PressProfile = DEFAULT_PRESS_PROFILE,
+  { signal, onResults }: AiFetchOptions = {}
+): Promise<Map<string, AiPrintResult>> {
   const results = new Map<string, AiPrintResult>();
-  const uncached: string[] = [];
+  const uncached = new Set<string>();
+  await cacheReady;
+  if (signal?.aborted) throw abortError();
+  const settings = getAiSettings();
+  const now = Date.now();
+  const touched: [string, unknown][] = [];
 
   for (const hex of hexCodes) {
     const normalized = normalizeHex(hex);
-    const cached = cache.get(normalized);
-    if (cached) {
-      results.set(normalized, cached);
+    const key = cacheKey(normalized, settings, ink, press);
+    const cached = cache.get(key);
+    if (cached && !isExpired(cached, now)) {
+      results.set(normalized, cached.result);
+      // Move to the most recent end of the LRU order
+      const entry = now - cached.lastUsedAt > TOUCH_INTERVAL_MS ? { ...cached, lastUsedAt: now } : cached;
+      cache.delete(key);
+      cache.set(key, entry);
+      if (entry !== cached) touched.push([key, entry]);
     } else {
-      uncached.push(normalized);
+      uncached.add(normalized);
     }
   }
+  putAiCacheEntries(touched).catch(e => console.warn('Failed to save AI cache:', e));
+  if (results.size > 0) onResults?.(new Map(results));
 
-  if (uncached.length === 0) return results;
+  if (uncached.size === 0) return results;
 
-  const apiKey = (process.env as any).GEMINI_API_KEY;
-  if (!apiKey || apiKey === 'PLACEHOLDER_API_KEY') {
-    for (const hex of uncached) {
-      const fb = heuristicFallback(hex);
-      results.set(hex, fb);
-      cache.set(hex, fb);
-    }
-    persistCache();
+  // Heuristic answers are cheap and not cached, so they never shadow a later AI answer
+  if (settings.provider === 'off') {
+    const heuristics = new Map(Array.from(uncached, hex => [hex, heuristicFallback(hex, ink, press)]));
+    heuristics.forEach((result, hex) => results.set(hex, result));
+    onResults?.(heuristics);
     return results;
   }
 
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: buildPrompt(uncached) }] }],
-          generationConfig: {
-            temperature: 0.2,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
+  const pending = Array.from(uncached);
+  const chunks = Array.from({ length: Math.ceil(pending.length / CHUNK_SIZE) }, (_, i) => pending.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE));
+  await Promise.all(chunks.map(async chunk => {
+    const answered = await requestRecipes(chunk, ink, press, settings, signal);
+    if (signal?.aborted) return;
+    answered.forEach((result, hex) => results.set(hex, result));
+    onResults?.(answered);
+  }));
+  if (signal?.aborted) throw abortError();
+  return results;
+}
 
-    if (!response.ok) throw new Error(`Gemini API ${response.status}`);
+export function getCachedResult(
+  hex: string,
+  ink: InkSettings = DEFAULT_INK_SETTINGS,
+  press: PressProfile = DEFAULT_PRESS_PROFILE
+): AiPrintResult | undefined {
+  const entry = cache.get(cacheKey(normalizeHex(hex), getAiSettings(), ink, press));
+  return entry && !isExpired(entry, Date.now()) ? entry.result : undefined;
+}
 
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const parsed = parseAiResponse(text, uncached);
+/** Every cached answer, most recently used first. */
+export async function listAiCache(): Promise<AiCacheEntry[]> {
+  await cacheReady;
+  return Array.from(cache.values()).reverse();
+}
 
-    for (const [hex, result] of parsed) {
-      results.set(hex, result);
-      cache.set(hex, result);
-    }
-    persistCache();
-  } catch (err) {
-    console.warn('AI CMYK fetch failed, falling back to heuristic:', err);
-    for (const hex of uncached) {
-      const fb = heuristicFallback(hex);
-      results.set(hex, fb);
-    }
-  }
+export function setAiCachePinned(keys: string[], pinned: boolean) {
+  const changed = keys.filter(key => {
+    const entry = cache.get(key);
+    if (!entry || entry.pinned === pinned) return false;
+    cache.set(key, { ...entry, pinned });
+    return true;
+  });
+  const evicted = pinned ? [] : evictLeastRecent();
+  persistCache(changed.filter(key => cache.has(key)), evicted);
+}
 
-  return results;
+export function removeAiCacheEntries(keys: string[]) {
+  persistCache([], keys.filter(key => cache.delete(key)));
+}
+
+/**
+ * The settings that produced a cached entry: its provider, model and endpoint,
+ * with the current API key when that is for the same provider. Null when the
+ * provider needs a key and none is set for it.
+ */
+export function getRerunSettings(entry: AiCacheEntry, current: AiSettings): AiSettings | null {
+  const settings = { ...settingsForProvider(entry.provider, current), model: entry.model, baseUrl: entry.endpoint };
+  if (getProviderInfo(entry.provider).apiKey === 'required' && !settings.apiKey) return null;
+  return settings;
+}
+
+/**
+ * Asks the entry's own provider and model again about a cached color, so the
+ * answer replaces that entry; a failed request leaves the old one in place.
+ */
+export async function rerunAiCacheEntry(key: string, ink: InkSettings, signal?: AbortSignal): Promise<AiPrintResult | undefined> {
+  await cacheReady;
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  const settings = getRerunSettings(entry, getAiSettings());
+  if (!settings) return undefined;
+  const results = await requestRecipes(
+    [entry.hex],
+    { ...ink, blackGeneration: entry.blackGeneration },
+    getPressProfile(entry.pressId),
+    settings,
+    signal
+  );
+  return results.get(entry.hex);
 }
 
-export function getCachedResult(hex: string): AiPrintResult | undefined {
-  return cache.get(normalizeHex(hex));
+/**
+ * The recipe shown and exported for a color: a user-specified CMYK wins, then an
+ * AI result, then the heuristic. Standard values and ink limits always follow
+ * the current settings, not whatever was cached.
+ */
+export function resolvePrintConversion(
+  hex: string,
+  ink: InkSettings = DEFAULT_INK_SETTINGS,
+  press: PressProfile = DEFAULT_PRESS_PROFILE,
+  lockedCmyk?: CmykValues,
+  aiResult: AiPrintResult | undefined = getCachedResult(hex, ink, press)
+): ResolvedPrintConversion {
+  const normalized = normalizeHex(hex);
+  const { tacLimit } = resolveInkSettings(ink, press);
+  if (lockedCmyk) {
+    // Kept as locked even over the limit, but flagged so the warning still shows
+    const totalInk = getTotalInk(lockedCmyk);
+    const exceeded = totalInk > tacLimit;
+    return {
+      input_hex: normalized,
+      conversions: {
+        standard_auto: getStandardConversion(normalized, press),
+        smart_print_recipe: {
+          ...lockedCmyk,
+          modifications_made: exceeded
+            ? `User-specified CMYK, used as given. Its ${totalInk}% total ink is over the ${tacLimit}% limit.`
+            : 'User-specified CMYK, used as given.',
+          paper_type: press.paperType,
+          total_ink: totalInk,
+          tac_limit: tacLimit,
+          tac_adjusted: false,
+          tac_exceeded: exceeded,
+        },
+      },
+      source: 'locked',
+    };
+  }
+  if (aiResult?.rejected) {
+    const heuristic = getPrintConversions(normalized, ink, press);
+    const { cmyk, reasons } = aiResult.rejected;
+    return {
+      ...heuristic,
+      conversions: {
+        ...heuristic.conversions,
+        smart_print_recipe: {
+          ...heuristic.conversions.smart_print_recipe,
+          modifications_made: `AI suggested ${formatRecipe(cmyk)}, rejected: ${reasons.join('; ')}. Showing the heuristic recipe instead. ${heuristic.conversions.smart_print_recipe.modifications_made}`,
+        },
+      },
+      source: 'ai-rejected',
+    };
+  }
+  if (aiResult && aiResult.source !== 'heuristic') {
+    return {
+      ...aiResult,
+      conversions: {
+        standard_auto: getStandardConversion(normalized, press),
+        smart_print_recipe: applyInkLimit(aiResult.conversions.smart_print_recipe, tacLimit),
+      },
+    };
+  }
+  return { ...getPrintConversions(normalized, ink, press), source: 'heuristic' };
 }
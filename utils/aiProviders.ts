@@ -0,0 +1,315 @@
+import { getPrintConversions } from './colorUtils';
+import { InkSettings, PressProfile } from '../types';
+
+// Where smart-recipe prompts go. Every provider takes a prompt and returns the
+// model's raw text; parsing and validation stay in aiColorService.
+
+export type AiProviderId = 'off' | 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface AiProviderInfo {
+  id: AiProviderId;
+  name: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  /** 'required' for hosted APIs; on-prem OpenAI-compatible servers often run without one. */
+  apiKey: 'required' | 'optional' | 'none';
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  /** The colors in the prompt, for providers that answer without a model. */
+  hexes: string[];
+  /** The ink settings and press the prompt was built for, likewise. */
+  ink: InkSettings;
+  press: PressProfile;
+  /** JSON Schema for the answer, passed on as each API's structured-output option. */
+  schema?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export const AI_PROVIDERS: AiProviderInfo[] = [
+  {
+    id: 'off',
+    name: 'Off',
+    description: 'Heuristic recipes only. No colors leave this device.',
+    defaultModel: '',
+    defaultBaseUrl: '',
+    apiKey: 'none',
+  },
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: 'Google AI Studio API.',
+    defaultModel: 'gemini-2.0-flash',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    apiKey: 'required',
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    description: 'Any /chat/completions endpoint: OpenAI, Azure, vLLM, LM Studio or an on-prem gateway.',
+    defaultModel: 'gpt-4o-mini',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    apiKey: 'optional',
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    description: 'A local or on-prem Ollama server. Its origin must allow this app (OLLAMA_ORIGINS).',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: 'http://localhost:11434',
+    apiKey: 'none',
+  },
+  {
+    id: 'mock',
+    name: 'Mock',
+    description: 'Canned answers after a short delay, for offline testing. No network.',
+    defaultModel: 'mock',
+    defaultBaseUrl: '',
+    apiKey: 'none',
+  },
+];
+
+export const getProviderInfo = (id: AiProviderId): AiProviderInfo =>
+  AI_PROVIDERS.find(p => p.id === id) ?? AI_PROVIDERS[0];
+
+const STORAGE_KEY_AI_SETTINGS = 'hexviewer_ai_settings';
+const MOCK_DELAY_MS = 600;
+
+export const DEFAULT_AI_SETTINGS: AiSettings = { provider: 'off', model: '', baseUrl: '', apiKey: '' };
+
+/** Settings for a provider with its defaults filled in; keeps the key only when the provider uses one. */
+export const settingsForProvider = (provider: AiProviderId, previous?: AiSettings): AiSettings => {
+  const info = getProviderInfo(provider);
+  const same = previous?.provider === provider;
+  return {
+    provider,
+    model: same && previous.model ? previous.model : info.defaultModel,
+    baseUrl: same && previous.baseUrl ? previous.baseUrl : info.defaultBaseUrl,
+    apiKey: same && info.apiKey !== 'none' ? previous.apiKey : '',
+  };
+};
+
+const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_AI_SETTINGS);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (AI_PROVIDERS.some(p => p.id === parsed.provider)) {
+        return {
+          provider: parsed.provider,
+          model: String(parsed.model ?? ''),
+          baseUrl: String(parsed.baseUrl ?? ''),
+          apiKey: String(parsed.apiKey ?? ''),
+        };
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to load AI settings from localStorage:', e);
+  }
+  return DEFAULT_AI_SETTINGS;
+};
+
+/** False until settings have been saved once; builds before the provider choice used Gemini without asking. */
+export const isAiConfigured = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY_AI_SETTINGS) !== null;
+  } catch {
+    return false;
+  }
+};
+
+let currentSettings = loadAiSettings();
+const settingsListeners = new Set<(settings: AiSettings) => void>();
+
+export const getAiSettings = (): AiSettings => currentSettings;
+
+export const setAiSettings = (settings: AiSettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY_AI_SETTINGS, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to save AI settings to localStorage:', e);
+  }
+  settingsListeners.forEach(listener => listener(settings));
+};
+
+export const subscribeAiSettings = (listener: (settings: AiSettings) => void): (() => void) => {
+  settingsListeners.add(listener);
+  return () => { settingsListeners.delete(listener); };
+};
+
+/** Where prompts would be sent, for showing the user; null when nothing leaves the device. */
+export const describeDestination = (settings: AiSettings): string | null => {
+  if (settings.provider === 'off' || settings.provider === 'mock') return null;
+  try {
+    return new URL(settings.baseUrl).host;
+  } catch {
+    return settings.baseUrl || null;
+  }
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** The endpoint in one spelling (lowercase scheme and host, no trailing slash), for telling servers apart. */
+export const normalizeBaseUrl = (baseUrl: string): string => {
+  try {
+    const url = new URL(baseUrl.trim());
+    return trimSlash(`${url.origin}${url.pathname}`);
+  } catch {
+    return trimSlash(baseUrl.trim());
+  }
+};
+
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderHttpError(
+      `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  return response.json();
+};
+
+// Gemini takes an OpenAPI-style subset: upper-case types and no additionalProperties
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (typeof schema !== 'object' || schema === null) return schema;
+  return Object.fromEntries(Object.entries(schema)
+    .filter(([key]) => key !== 'additionalProperties')
+    .map(([key, value]) => [key, key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value)]));
+};
+
+const completeGemini = async ({ prompt, schema, signal }: CompletionRequest, settings: AiSettings) => {
+  const data = await postJson(
+    `${trimSlash(settings.baseUrl)}/models/${encodeURIComponent(settings.model)}:generateContent`,
+    {
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: 0.2,
+        maxOutputTokens: 2048,
+        ...(schema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }),
+      },
+    },
+    { 'x-goog-api-key': settings.apiKey },
+    signal
+  );
+  return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+};
+
+const completeOpenAi = async ({ prompt, schema, signal }: CompletionRequest, settings: AiSettings) => {
+  const url = `${trimSlash(settings.baseUrl)}/chat/completions`;
+  const headers: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+  const body = { model: settings.model, messages: [{ role: 'user', content: prompt }], temperature: 0.2 };
+  let data;
+  try {
+    data = await postJson(
+      url,
+      schema ? { ...body, response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema } } } : body,
+      headers,
+      signal
+    );
+  } catch (err) {
+    // Not every compatible server understands json_schema; the prompt alone still asks for JSON
+    if (!schema || !(err instanceof ProviderHttpError) || err.status !== 400) throw err;
+    data = await postJson(url, body, headers, signal);
+  }
+  return data.choices?.[0]?.message?.content || '';
+};
+
+const completeOllama = async ({ prompt, schema, signal }: CompletionRequest, settings: AiSettings) => {
+  const data = await postJson(
+    `${trimSlash(settings.baseUrl)}/api/chat`,
+    {
+      model: settings.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false,
+      options: { temperature: 0.2 },
+      ...(schema && { format: schema }),
+    },
+    {},
+    signal
+  );
+  return data.message?.content || '';
+};
+
+// Answers in the requested format from the heuristic, so the whole AI path can be exercised offline
+const completeMock = ({ hexes, ink, press, signal }: CompletionRequest) => new Promise<string>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    resolve(JSON.stringify({
+      colors: hexes.map(hex => {
+        const { c, m, y, k } = getPrintConversions(hex, ink, press).conversions.smart_print_recipe;
+        return { hex, c, m, y, k, explanation: 'Mock provider: heuristic recipe returned as an AI answer.' };
+      }),
+    }));
+  }, MOCK_DELAY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  });
+});
+
+const PROVIDER_CLIENTS: Record<Exclude<AiProviderId, 'off'>, (request: CompletionRequest, settings: AiSettings) => Promise<string>> = {
+  gemini: completeGemini,
+  openai: completeOpenAi,
+  ollama: completeOllama,
+  mock: completeMock,
+};
+
+/** Problems that keep the settings from working, or null when they look usable. */
+export const validateAiSettings = (settings: AiSettings): string | null => {
+  const info = getProviderInfo(settings.provider);
+  if (settings.provider === 'off' || settings.provider === 'mock') return null;
+  if (!settings.model.trim()) return 'Enter a model name.';
+  try {
+    new URL(settings.baseUrl);
+  } catch {
+    return 'Enter a full base URL, including http:// or https://.';
+  }
+  if (info.apiKey === 'required' && !settings.apiKey.trim()) return `${info.name} needs an API key.`;
+  return null;
+};
+
+/** Sends the prompt to the configured provider and returns its raw text. */
+export const requestCompletion = (request: CompletionRequest, settings: AiSettings = currentSettings): Promise<string> => {
+  if (settings.provider === 'off') return Promise.reject(new Error('AI provider is turned off'));
+  const problem = validateAiSettings(settings);
+  if (problem) return Promise.reject(new Error(problem));
+  return PROVIDER_CLIENTS[settings.provider](request, settings);
+};
@@ -0,0 +1,125 @@
+import { CmykValues, InkSettings, PressProfile } from '../types';
+import { deltaE2000, labToLch, rgbToLab } from './colorScience';
+import { hexToRgb, isRecord, normalizeHex, rgbToHex } from './colorUtils';
+import { getTotalInk } from './inkCoverage';
+import { resolveInkSettings } from './pressProfiles';
+import { estimatePrintedLab } from './softProof';
+
+// Checks applied to model answers before they are shown as AI recipes. Shape
+// problems drop an item (the heuristic fills in); implausible recipes are kept
+// as 'ai-rejected' so the user can see what the model said and why it lost.
+
+export interface AiRecipeItem extends CmykValues {
+  hex: string;
+  explanation: string;
+}
+
+/** Requested from providers that support structured output. */
+export const RECIPE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    colors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hex: { type: 'string' },
+          c: { type: 'integer' },
+          m: { type: 'integer' },
+          y: { type: 'integer' },
+          k: { type: 'integer' },
+          explanation: { type: 'string' },
+        },
+        required: ['hex', 'c', 'm', 'y', 'k', 'explanation'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['colors'],
+  additionalProperties: false,
+};
+
+// How far past the TAC limit an answer may go before it is nonsense rather than a rounding slip
+const TAC_TOLERANCE = 20;
+// Hue is only compared when both colors have enough chroma for hue to mean anything
+const HUE_MIN_CHROMA = 15;
+// Cyans and some greens drift on any press, so drift also has to beat the heuristic's own by a margin
+const MAX_HUE_DRIFT = 35;
+const HUE_DRIFT_MARGIN = 10;
+// How much further (ΔE2000) the printed AI recipe may land from the source than the heuristic's does.
+// Measured against the source, not the heuristic's print: the heuristic leaves neutral grays blank.
+const MAX_EXTRA_ERROR = 20;
+
+/** The answer's items: a `{ colors: [...] }` object per the schema, or a bare array from models that ignore it. */
+export const extractRecipeItems = (text: string): unknown[] | null => {
+  const cleaned = text.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (Array.isArray(parsed)) return parsed;
+    if (isRecord(parsed) && Array.isArray(parsed.colors)) return parsed.colors;
+  } catch { /* not JSON */ }
+  return null;
+};
+
+const HEX_PATTERN = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i;
+
+/** Checks one item's shape against the request; returns the item or why it was dropped. */
+export const validateRecipeItem = (raw: unknown, requested: Set<string>): { item: AiRecipeItem } | { error: string } => {
+  if (!isRecord(raw)) return { error: 'not an object' };
+  if (typeof raw.hex !== 'string' || !HEX_PATTERN.test(raw.hex.trim())) return { error: 'missing or malformed hex' };
+  // Expands shorthand, so #abc matches a requested #AABBCC
+  const hex = rgbToHex(hexToRgb(raw.hex.trim()));
+  if (!requested.has(hex)) return { error: `${hex} was not requested` };
+  const channels = (['c', 'm', 'y', 'k'] as const).map(ch => raw[ch]);
+  if (channels.some(v => typeof v !== 'number' || !Number.isFinite(v) || v < 0 || v > 100)) {
+    return { error: `${hex} has ink values outside 0–100` };
+  }
+  const [c, m, y, k] = (channels as number[]).map(Math.round);
+  const explanation = typeof raw.explanation === 'string' && raw.explanation.trim() ? raw.explanation.trim() : 'No explanation given.';
+  return { item: { hex, c, m, y, k, explanation } };
+};
+
+const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+/**
+ * Reasons an AI recipe is not believable for its color: ink far past the TAC
+ * limit, a printed hue that drifts away from the source, or a printed color much
+ * further from the source than the heuristic recipe's. Empty when it passes.
+ */
+export const checkRecipePlausibility = (
+  hex: string,
+  recipe: CmykValues,
+  heuristic: CmykValues,
+  ink: InkSettings,
+  press: PressProfile
+): string[] => {
+  const reasons: string[] = [];
+  const { tacLimit } = resolveInkSettings(ink, press);
+  const totalInk = getTotalInk(recipe);
+  if (totalInk > tacLimit + TAC_TOLERANCE) reasons.push(`total ink ${totalInk}% is far over the ${tacLimit}% limit`);
+
+  const sourceLab = rgbToLab(hexToRgb(normalizeHex(hex)));
+  const sourceLch = labToLch(sourceLab);
+  const printedLab = estimatePrintedLab(recipe, press);
+  const heuristicLab = estimatePrintedLab(heuristic, press);
+  const printedLch = labToLch(printedLab);
+  if (sourceLch.c >= HUE_MIN_CHROMA && printedLch.c >= HUE_MIN_CHROMA) {
+    const drift = hueDistance(sourceLch.h, printedLch.h);
+    const heuristicDrift = hueDistance(sourceLch.h, labToLch(heuristicLab).h);
+    if (drift > MAX_HUE_DRIFT && drift > heuristicDrift + HUE_DRIFT_MARGIN) {
+      reasons.push(`printed hue drifts ${Math.round(drift)}° from the original`);
+    }
+  }
+
+  const error = deltaE2000(printedLab, sourceLab);
+  const heuristicError = deltaE2000(heuristicLab, sourceLab);
+  // Plain "dE": the reasons end up in PDF text, whose standard fonts have no Greek letters
+  if (error > heuristicError + MAX_EXTRA_ERROR) {
+    reasons.push(`prints dE ${error.toFixed(0)} from the original, against dE ${heuristicError.toFixed(0)} for the heuristic recipe`);
+  }
+
+  return reasons;
+};
@@ -0,0 +1,132 @@
+import { CmykValues, Collection, ColorRecord, SpotAssignment } from '../types';
+import { isRecord, isValidHex, normalizeHex } from './colorUtils';
+import { formatSpotName } from './spotLibraries';
+
+/** Suggested roles offered in the color editor; any other tag is allowed too. */
+export const COLOR_ROLES = ['primary', 'secondary', 'accent', 'neutral', 'background', 'surface', 'text', 'success', 'warning', 'error'];
+
+export const MAX_SELECTED = 12;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+export const normalizeTags = (tags: unknown): string[] | undefined => {
+  if (!Array.isArray(tags)) return undefined;
+  const cleaned = Array.from(new Set(tags.filter((t): t is string => typeof t === 'string').map(t => t.trim().toLowerCase()).filter(Boolean)));
+  return cleaned.length ? cleaned : undefined;
+};
+
+const migrateCmyk = (value: unknown): CmykValues | undefined => {
+  if (!isRecord(value)) return undefined;
+  const channels = (['c', 'm', 'y', 'k'] as const).map(ch => Number(value[ch]));
+  if (channels.some(n => !Number.isFinite(n))) return undefined;
+  const [c, m, y, k] = channels.map(n => Math.max(0, Math.min(100, Math.round(n))));
+  return { c, m, y, k };
+};
+
+const migrateSpot = (value: unknown): SpotAssignment | undefined => {
+  if (!isRecord(value) || typeof value.code !== 'string' || typeof value.hex !== 'string' || !isValidHex(value.hex)) return undefined;
+  const cmyk = migrateCmyk(value.cmyk);
+  return {
+    libraryId: String(value.libraryId ?? 'unknown'),
+    libraryName: String(value.libraryName ?? 'Unknown library'),
+    code: value.code,
+    name: optionalString(value.name),
+    hex: normalizeHex(value.hex),
+    ...(cmyk && { cmyk }),
+  };
+};
+
+const migrateColor = (value: unknown): ColorRecord | null => {
+  if (!isRecord(value) || typeof value.hex !== 'string' || !isValidHex(value.hex)) return null;
+  const record: ColorRecord = {
+    id: typeof value.id === 'string' && value.id ? value.id : Math.random().toString(36).substring(7),
+    hex: normalizeHex(value.hex),
+  };
+  const name = optionalString(value.name);
+  const tags = normalizeTags(value.tags);
+  const notes = optionalString(value.notes);
+  const spot = migrateSpot(value.spot);
+  const lockedCmyk = migrateCmyk(value.lockedCmyk);
+  if (name) record.name = name;
+  if (tags) record.tags = tags;
+  if (notes) record.notes = notes;
+  if (spot) record.spot = spot;
+  if (lockedCmyk) record.lockedCmyk = lockedCmyk;
+  return record;
+};
+
+export interface CollectionValidation {
+  collections: Collection[];
+  /** One line per entry that was dropped or repaired. */
+  issues: string[];
+}
+
+/**
+ * Brings stored or imported collections up to the current shape, reporting
+ * what had to change: unknown fields are dropped, malformed colors skipped,
+ * duplicate IDs replaced and selections pruned.
+ */
+export const validateCollections = (value: unknown): CollectionValidation => {
+  if (!Array.isArray(value)) return { collections: [], issues: ['Expected a list of collections.'] };
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+  const collections = value.flatMap((raw, index): Collection[] => {
+    const where = isRecord(raw) && typeof raw.name === 'string' && raw.name.trim() ? `"${raw.name.trim()}"` : `Collection ${index + 1}`;
+    if (!isRecord(raw)) {
+      issues.push(`${where}: not an object, skipped.`);
+      return [];
+    }
+    if (typeof raw.id !== 'string' || !raw.id) {
+      issues.push(`${where}: missing id, skipped.`);
+      return [];
+    }
+    if (seenIds.has(raw.id)) {
+      issues.push(`${where}: duplicate id "${raw.id}", skipped.`);
+      return [];
+    }
+    if (!Array.isArray(raw.colors)) {
+      issues.push(`${where}: missing colors list, skipped.`);
+      return [];
+    }
+    seenIds.add(raw.id);
+
+    const colorIds = new Set<string>();
+    const colors = raw.colors.flatMap((rawColor, colorIndex): ColorRecord[] => {
+      const color = migrateColor(rawColor);
+      if (!color) {
+        const hex = isRecord(rawColor) && typeof rawColor.hex === 'string' ? ` "${rawColor.hex}"` : '';
+        issues.push(`${where}: color ${colorIndex + 1}${hex} is not a valid hex color, skipped.`);
+        return [];
+      }
+      if (colorIds.has(color.id)) color.id = Math.random().toString(36).substring(7);
+      colorIds.add(color.id);
+      return [color];
+    });
+
+    const requested = Array.isArray(raw.selectedIds) ? raw.selectedIds : [];
+    const selectedIds = requested.filter((id): id is string => typeof id === 'string' && colorIds.has(id)).slice(0, MAX_SELECTED);
+    if (selectedIds.length < requested.length) {
+      issues.push(`${where}: ${requested.length - selectedIds.length} selection${requested.length - selectedIds.length === 1 ? '' : 's'} dropped.`);
+    }
+
+    return [{
+      id: raw.id,
+      name: optionalString(raw.name) ?? 'Untitled',
+      colors,
+      selectedIds,
+      ...(typeof raw.pressProfileId === 'string' && { pressProfileId: raw.pressProfileId }),
+    }];
+  });
+  return { collections, issues };
+};
+
+/** validateCollections without the report; null when nothing usable is left. */
+export const migrateCollections = (value: unknown): Collection[] | null => {
+  const { collections } = validateCollections(value);
+  return collections.length ? collections : null;
+};
+
+/** Human-facing label: the given name, then the assigned spot, then the hex. */
+export const getColorLabel = (record: ColorRecord): string =>
+  record.name || (record.spot ? formatSpotName(record.spot) : record.hex);
@@ -0,0 +1,150 @@
+import { CmykValues, RenderingIntent, RgbValues } from '../types';
+import { CmykTransform, IccProfile, createCmykTransform, parseIccProfile } from './iccProfile';
+import { labToRgb } from './colorScience';
+
+export interface OutputProfilePreset {
+  id: string;
+  name: string;
+  url?: string;
+}
+
+export const NO_PROFILE_ID = 'none';
+
+// Standard characterization profiles are served from /profiles. They are not
+// redistributed with the app; drop the licensed .icc files into public/profiles
+// and the matching presets are offered.
+export const OUTPUT_PROFILE_PRESETS: OutputProfilePreset[] = [
+  { id: 'fogra39', name: 'Coated FOGRA39', url: './profiles/CoatedFOGRA39.icc' },
+  { id: 'gracol2013', name: 'GRACoL2013 (CRPC6)', url: './profiles/GRACoL2013_CRPC6.icc' },
+  { id: 'swop', name: 'U.S. Web Coated (SWOP) v2', url: './profiles/USWebCoatedSWOP.icc' },
+  { id: NO_PROFILE_ID, name: 'Basic math (no profile)' },
+];
+
+export const CUSTOM_PROFILE_ID = 'custom';
+
+export const RENDERING_INTENTS: { id: RenderingIntent; name: string }[] = [
+  { id: 'perceptual', name: 'Perceptual' },
+  { id: 'relative', name: 'Relative colorimetric' },
+  { id: 'relative-bpc', name: 'Relative colorimetric + BPC' },
+];
+
+const STORAGE_KEY_CUSTOM_PROFILE = 'hexviewer_custom_icc';
+
+interface ActiveTransform {
+  name: string;
+  intent: RenderingIntent;
+  transform: CmykTransform;
+}
+
+let active: ActiveTransform | null = null;
+
+export const setActiveOutputProfile = (profile: IccProfile | null, name: string, intent: RenderingIntent) => {
+  active = profile ? { name, intent, transform: createCmykTransform(profile, intent) } : null;
+};
+
+export const getActiveCmykTransform = (): CmykTransform | null => active?.transform ?? null;
+
+/** Textbook K = 1 - max(R, G, B) separation, used when no output profile is loaded. */
+export const naiveRgbToCmyk = (r: number, g: number, b: number): CmykValues => {
+  const rP = r / 255, gP = g / 255, bP = b / 255;
+  const k = 1 - Math.max(rP, gP, bP);
+  if (k === 1) return { c: 0, m: 0, y: 0, k: 100 };
+  return {
+    c: Math.round(((1 - rP - k) / (1 - k)) * 100),
+    m: Math.round(((1 - gP - k) / (1 - k)) * 100),
+    y: Math.round(((1 - bP - k) / (1 - k)) * 100),
+    k: Math.round(k * 100),
+  };
+};
+
+/** Screen preview of a CMYK build, through the active profile when one is loaded. */
+export const cmykToStandardRgb = (cmyk: CmykValues): RgbValues => {
+  if (active) return labToRgb(active.transform.toLab(cmyk));
+  const k = 1 - cmyk.k / 100;
+  return {
+    r: Math.round(255 * (1 - cmyk.c / 100) * k),
+    g: Math.round(255 * (1 - cmyk.m / 100) * k),
+    b: Math.round(255 * (1 - cmyk.y / 100) * k),
+  };
+};
+
+export const rgbToStandardCmyk = (r: number, g: number, b: number): CmykValues & { description: string } => {
+  if (!active) {
+    return {
+      ...naiveRgbToCmyk(r, g, b),
+      description: 'Standard mathematical conversion.',
+    };
+  }
+  const intentName = RENDERING_INTENTS.find(i => i.id === active!.intent)?.name ?? active.intent;
+  return {
+    ...active.transform.fromRgb(r, g, b),
+    description: `ICC conversion via ${active.name} (${intentName}).`,
+  };
+};
+
+export const fetchPresetProfile = async (preset: OutputProfilePreset): Promise<IccProfile> => {
+  if (!preset.url) throw new Error(`${preset.name} has no profile file`);
+  const response = await fetch(preset.url);
+  if (!isProfileResponse(response)) throw new Error(`${preset.name} profile not found at ${preset.url}`);
+  return parseIccProfile(await response.arrayBuffer());
+};
+
+// The dev server and most static hosts answer a missing file with index.html
+const isProfileResponse = (response: Response) =>
+  response.ok && !response.headers.get('content-type')?.includes('text/html');
+
+/** The presets that can be used here: the no-profile option and those whose file is deployed. */
+export const findAvailablePresets = async (): Promise<OutputProfilePreset[]> => {
+  const available = await Promise.all(OUTPUT_PROFILE_PRESETS.map(async preset => {
+    if (!preset.url) return true;
+    try {
+      return isProfileResponse(await fetch(preset.url, { method: 'HEAD' }));
+    } catch {
+      return false;
+    }
+  }));
+  return OUTPUT_PROFILE_PRESETS.filter((_, i) => available[i]);
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+/** Parses a user-supplied .icc file and remembers it for the next session. */
+export const loadCustomProfile = async (file: File): Promise<IccProfile> => {
+  const buffer = await file.arrayBuffer();
+  const profile = parseIccProfile(buffer);
+  try {
+    localStorage.setItem(STORAGE_KEY_CUSTOM_PROFILE, JSON.stringify({
+      name: profile.description || file.name,
+      data: toBase64(buffer),
+    }));
+  } catch (e) {
+    console.warn('Custom profile is too large to remember between sessions:', e);
+  }
+  return profile;
+};
+
+export const restoreCustomProfile = (): { name: string; profile: IccProfile } | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_CUSTOM_PROFILE);
+    if (!stored) return null;
+    const { name, data } = JSON.parse(stored);
+    return { name, profile: parseIccProfile(fromBase64(data)) };
+  } catch (e) {
+    console.warn('Failed to restore custom ICC profile:', e);
+    return null;
+  }
+};
@@ -0,0 +1,231 @@
+import { CmykValues } from '../types';
+import { cmykToStandardRgb } from './colorManagement';
+import { hslToRgb, oklchToRgb, isOklabInSrgb, lchToLab } from './colorScience';
+import { rgbToHex } from './colorUtils';
+
+export type ColorInputFormat = 'hex' | 'rgb' | 'hsl' | 'oklch' | 'cmyk' | 'named';
+
+export interface ParsedColorToken {
+  /** 1-based line in the pasted text. */
+  line: number;
+  input: string;
+  hex?: string;
+  format?: ColorInputFormat;
+  /** User-specified CMYK, kept as an override instead of being recomputed. */
+  cmyk?: CmykValues;
+  /** Words beside the value on its line, such as "Signal Red"; becomes the color's name. */
+  label?: string;
+  note?: string;
+  error?: string;
+}
+
+// CSS Color Module Level 4 named colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'F0F8FF', antiquewhite: 'FAEBD7', aqua: '00FFFF', aquamarine: '7FFFD4', azure: 'F0FFFF',
+  beige: 'F5F5DC', bisque: 'FFE4C4', black: '000000', blanchedalmond: 'FFEBCD', blue: '0000FF',
+  blueviolet: '8A2BE2', brown: 'A52A2A', burlywood: 'DEB887', cadetblue: '5F9EA0', chartreuse: '7FFF00',
+  chocolate: 'D2691E', coral: 'FF7F50', cornflowerblue: '6495ED', cornsilk: 'FFF8DC', crimson: 'DC143C',
+  cyan: '00FFFF', darkblue: '00008B', darkcyan: '008B8B', darkgoldenrod: 'B8860B', darkgray: 'A9A9A9',
+  darkgreen: '006400', darkgrey: 'A9A9A9', darkkhaki: 'BDB76B', darkmagenta: '8B008B', darkolivegreen: '556B2F',
+  darkorange: 'FF8C00', darkorchid: '9932CC', darkred: '8B0000', darksalmon: 'E9967A', darkseagreen: '8FBC8F',
+  darkslateblue: '483D8B', darkslategray: '2F4F4F', darkslategrey: '2F4F4F', darkturquoise: '00CED1', darkviolet: '9400D3',
+  deeppink: 'FF1493', deepskyblue: '00BFFF', dimgray: '696969', dimgrey: '696969', dodgerblue: '1E90FF',
+  firebrick: 'B22222', floralwhite: 'FFFAF0', forestgreen: '228B22', fuchsia: 'FF00FF', gainsboro: 'DCDCDC',
+  ghostwhite: 'F8F8FF', gold: 'FFD700', goldenrod: 'DAA520', gray: '808080', green: '008000',
+  greenyellow: 'ADFF2F', grey: '808080', honeydew: 'F0FFF0', hotpink: 'FF69B4', indianred: 'CD5C5C',
+  indigo: '4B0082', ivory: 'FFFFF0', khaki: 'F0E68C', lavender: 'E6E6FA', lavenderblush: 'FFF0F5',
+  lawngreen: '7CFC00', lemonchiffon: 'FFFACD', lightblue: 'ADD8E6', lightcoral: 'F08080', lightcyan: 'E0FFFF',
+  lightgoldenrodyellow: 'FAFAD2', lightgray: 'D3D3D3', lightgreen: '90EE90', lightgrey: 'D3D3D3', lightpink: 'FFB6C1',
+  lightsalmon: 'FFA07A', lightseagreen: '20B2AA', lightskyblue: '87CEFA', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'B0C4DE', lightyellow: 'FFFFE0', lime: '00FF00', limegreen: '32CD32', linen: 'FAF0E6',
+  magenta: 'FF00FF', maroon: '800000', mediumaquamarine: '66CDAA', mediumblue: '0000CD', mediumorchid: 'BA55D3',
+  mediumpurple: '9370DB', mediumseagreen: '3CB371', mediumslateblue: '7B68EE', mediumspringgreen: '00FA9A', mediumturquoise: '48D1CC',
+  mediumvioletred: 'C71585', midnightblue: '191970', mintcream: 'F5FFFA', mistyrose: 'FFE4E1', moccasin: 'FFE4B5',
+  navajowhite: 'FFDEAD', navy: '000080', oldlace: 'FDF5E6', olive: '808000', olivedrab: '6B8E23',
+  orange: 'FFA500', orangered: 'FF4500', orchid: 'DA70D6', palegoldenrod: 'EEE8AA', palegreen: '98FB98',
+  paleturquoise: 'AFEEEE', palevioletred: 'DB7093', papayawhip: 'FFEFD5', peachpuff: 'FFDAB9', peru: 'CD853F',
+  pink: 'FFC0CB', plum: 'DDA0DD', powderblue: 'B0E0E6', purple: '800080', rebeccapurple: '663399',
+  red: 'FF0000', rosybrown: 'BC8F8F', royalblue: '4169E1', saddlebrown: '8B4513', salmon: 'FA8072',
+  sandybrown: 'F4A460', seagreen: '2E8B57', seashell: 'FFF5EE', sienna: 'A0522D', silver: 'C0C0C0',
+  skyblue: '87CEEB', slateblue: '6A5ACD', slategray: '708090', slategrey: '708090', snow: 'FFFAFA',
+  springgreen: '00FF7F', steelblue: '4682B4', tan: 'D2B48C', teal: '008080', thistle: 'D8BFD8',
+  tomato: 'FF6347', turquoise: '40E0D0', violet: 'EE82EE', wheat: 'F5DEB3', white: 'FFFFFF',
+  whitesmoke: 'F5F5F5', yellow: 'FFFF00', yellowgreen: '9ACD32',
+};
+
+// A color function call, or a run of characters up to the next separator
+const TOKEN_PATTERN = /[a-z-]+\([^)]*\)?|[^\s,;]+/gi;
+
+type ParseResult = Omit<ParsedColorToken, 'line' | 'input'>;
+
+const fail = (error: string): ParseResult => ({ error });
+
+/** Splits function arguments on commas, spaces and the `/` alpha separator. */
+const splitArgs = (body: string): { values: string[]; alpha?: string } => {
+  const [main, alpha] = body.split('/');
+  return { values: main.split(/[\s,]+/).filter(Boolean), alpha: alpha?.trim() || undefined };
+};
+
+const parseNumber = (raw: string): number | null => {
+  const n = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(n) ? n : null;
+};
+
+/** Percentages are scaled to `percentScale`; bare numbers are taken as-is. */
+const parseScaled = (raw: string, percentScale: number): number | null => {
+  if (raw.endsWith('%')) {
+    const n = parseNumber(raw.slice(0, -1));
+    return n === null ? null : (n / 100) * percentScale;
+  }
+  return parseNumber(raw);
+};
+
+const parseHue = (raw: string): number | null => {
+  const match = raw.match(/^(-?[\d.]+)(deg|turn|rad|grad)?$/i);
+  if (!match) return null;
+  const n = parseNumber(match[1]);
+  if (n === null) return null;
+  switch (match[2]?.toLowerCase()) {
+    case 'turn': return n * 360;
+    case 'rad': return (n * 180) / Math.PI;
+    case 'grad': return n * 0.9;
+    default: return n;
+  }
+};
+
+const alphaNote = (alpha?: string) => (alpha ? 'Alpha ignored.' : undefined);
+
+const parseHexToken = (token: string): ParseResult => {
+  const digits = token.replace(/^#/, '');
+  if (!/^[0-9a-f]+$/i.test(digits)) return fail('Not a hex code');
+  if (![3, 4, 6, 8].includes(digits.length)) return fail(`Hex needs 3, 4, 6 or 8 digits, got ${digits.length}`);
+  const expanded = digits.length <= 4 ? digits.split('').map(d => d + d).join('') : digits;
+  return {
+    hex: `#${expanded.slice(0, 6)}`.toUpperCase(),
+    format: 'hex',
+    note: expanded.length === 8 ? 'Alpha ignored.' : undefined,
+  };
+};
+
+const parseRgbFunction = (body: string): ParseResult => {
+  const { values, alpha } = splitArgs(body);
+  const channels = values.slice(0, 3).map(v => parseScaled(v, 255));
+  const legacyAlpha = values[3];
+  if (values.length < 3 || values.length > 4 || channels.some(c => c === null)) {
+    return fail('rgb() needs three channels');
+  }
+  const [r, g, b] = channels as number[];
+  if ([r, g, b].some(c => c < 0 || c > 255)) return fail('rgb() channels must be 0–255');
+  return { hex: rgbToHex({ r, g, b }), format: 'rgb', note: alphaNote(alpha ?? legacyAlpha) };
+};
+
+const parseHslFunction = (body: string): ParseResult => {
+  const { values, alpha } = splitArgs(body);
+  if (values.length < 3 || values.length > 4) return fail('hsl() needs hue, saturation and lightness');
+  const h = parseHue(values[0]);
+  const s = parseScaled(values[1], 100);
+  const l = parseScaled(values[2], 100);
+  if (h === null || s === null || l === null) return fail('hsl() values are not numbers');
+  if (s < 0 || s > 100 || l < 0 || l > 100) return fail('hsl() saturation and lightness must be 0–100%');
+  return { hex: rgbToHex(hslToRgb({ h, s, l })), format: 'hsl', note: alphaNote(alpha ?? values[3]) };
+};
+
+const parseOklchFunction = (body: string): ParseResult => {
+  const { values, alpha } = splitArgs(body);
+  if (values.length !== 3) return fail('oklch() needs lightness, chroma and hue');
+  const l = parseScaled(values[0], 1);
+  // 100% chroma is 0.4 per CSS Color 4
+  const c = parseScaled(values[1], 0.4);
+  const h = values[2] === 'none' ? 0 : parseHue(values[2]);
+  if (l === null || c === null || h === null) return fail('oklch() values are not numbers');
+  if (l < 0 || l > 1 || c < 0) return fail('oklch() lightness must be 0–1 (or 0–100%)');
+  const inGamut = isOklabInSrgb(lchToLab({ l, c, h }));
+  return {
+    hex: rgbToHex(oklchToRgb({ l, c, h })),
+    format: 'oklch',
+    note: [inGamut ? undefined : 'Clipped to sRGB.', alphaNote(alpha)].filter(Boolean).join(' ') || undefined,
+  };
+};
+
+const parseCmykFunction = (body: string): ParseResult => {
+  const { values } = splitArgs(body);
+  if (values.length !== 4) return fail('cmyk() needs four inks');
+  const inks = values.map(v => parseScaled(v, 100));
+  if (inks.some(v => v === null)) return fail('cmyk() values are not numbers');
+  // Input such as cmyk(0.2, 0, 1, 0) is read as 0–1; plain integers such as cmyk(1, 1, 0, 0) stay percents
+  const fractional = values.every(v => !v.endsWith('%')) && values.some(v => v.includes('.'))
+    && (inks as number[]).every(v => v <= 1);
+  const [c, m, y, k] = (inks as number[]).map(v => Math.round(fractional ? v * 100 : v));
+  if ([c, m, y, k].some(v => v < 0 || v > 100)) return fail('cmyk() inks must be 0–100%');
+  const cmyk = { c, m, y, k };
+  return { hex: rgbToHex(cmykToStandardRgb(cmyk)), format: 'cmyk', cmyk, note: 'CMYK kept as override.' };
+};
+
+const parseToken = (token: string): ParseResult => {
+  const fn = token.match(/^([a-z-]+)\((.*?)\)?$/i);
+  if (fn) {
+    if (!token.endsWith(')')) return fail('Missing closing parenthesis');
+    switch (fn[1].toLowerCase()) {
+      case 'rgb':
+      case 'rgba': return parseRgbFunction(fn[2]);
+      case 'hsl':
+      case 'hsla': return parseHslFunction(fn[2]);
+      case 'oklch': return parseOklchFunction(fn[2]);
+      case 'cmyk':
+      case 'device-cmyk': return parseCmykFunction(fn[2]);
+      default: return fail(`Unsupported function ${fn[1]}()`);
+    }
+  }
+  const named = NAMED_COLORS[token.toLowerCase()];
+  if (named) return { hex: `#${named}`, format: 'named' };
+  if (token.startsWith('#') || /^[0-9a-f]+$/i.test(token)) return parseHexToken(token);
+  return fail('Unrecognized color');
+};
+
+// Letters only, so possibly part of a label; six- and eight-digit hex such as FACADE are still values
+const isWord = (token: string) => /^[a-z-]+$/i.test(token) && !/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(token);
+
+/**
+ * Attaches each run of words to the value after it ("Signal Red #F43F5E"), or,
+ * for words trailing the last value, to that value if it has no label yet.
+ */
+const attachLabels = (parsed: ParsedColorToken[]): ParsedColorToken[] => {
+  const values: ParsedColorToken[] = [];
+  let words: string[] = [];
+  for (const token of parsed) {
+    if (isWord(token.input)) {
+      words.push(token.input);
+      continue;
+    }
+    values.push(words.length && token.hex ? { ...token, label: words.join(' ') } : token);
+    words = [];
+  }
+  const last = values[values.length - 1];
+  if (words.length && last?.hex && !last.label) values[values.length - 1] = { ...last, label: words.join(' ') };
+  return values;
+};
+
+/**
+ * Parses pasted text into one entry per color; lines may hold several colors.
+ * Words next to an explicit value ("Signal Red #F43F5E") become its label
+ * rather than named colors. A run of words that are not all named colors, with
+ * no value on the line, is reported as a label without a color.
+ */
+export const parseColorInput = (text: string): ParsedColorToken[] => {
+  const tokens: ParsedColorToken[] = [];
+  text.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const parsed = (raw.match(TOKEN_PATTERN) ?? []).map(input => ({ line, input, ...parseToken(input) }));
+    const words = parsed.filter(token => isWord(token.input));
+    const values = parsed.filter(token => !isWord(token.input));
+    if (values.some(token => token.hex)) {
+      tokens.push(...attachLabels(parsed));
+    } else if (words.length > 1 && words.some(token => token.format !== 'named')) {
+      const label = words.map(token => token.input).join(' ');
+      tokens.push({ line, input: label, error: 'No color value found' }, ...values);
+    } else {
+      tokens.push(...parsed);
+    }
+  });
+  return tokens;
+};
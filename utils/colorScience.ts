@@ -0,0 +1,235 @@
+import { HslValues, HsvValues, LabValues, LchValues, RgbValues, XyzValues } from '../types';
+
+// Perceptual color conversions. RGB is 8-bit sRGB; CIELAB is referenced to
+// D50 (the ICC PCS illuminant) so values line up with print tools.
+
+export const D50_WHITE: XyzValues = { x: 0.9642, y: 1.0, z: 0.8249 };
+
+// Linear sRGB ↔ XYZ, Bradford-adapted from D65 to D50
+const SRGB_TO_XYZ_D50 = [
+  0.4360747, 0.3850649, 0.1430804,
+  0.2225045, 0.7168786, 0.0606169,
+  0.0139322, 0.0971045, 0.7141733,
+];
+
+const XYZ_D50_TO_SRGB = [
+  3.1338561, -1.6168667, -0.4906146,
+  -0.9787684, 1.9161415, 0.0334540,
+  0.0719453, -0.2289914, 1.4052427,
+];
+
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const mul = (m: number[], a: number, b: number, c: number): [number, number, number] => [
+  m[0] * a + m[1] * b + m[2] * c,
+  m[3] * a + m[4] * b + m[5] * c,
+  m[6] * a + m[7] * b + m[8] * c,
+];
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+const normalizeHue = (h: number) => ((h % 360) + 360) % 360;
+
+export const srgbToLinear = (channel: number): number => {
+  const v = channel / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+export const linearToSrgb = (value: number): number => {
+  const v = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(v * 255)));
+};
+
+/** True when a linear-light triple can be shown in sRGB without clipping. */
+const inUnitRange = (values: number[]) => values.every(v => v >= -1e-4 && v <= 1 + 1e-4);
+
+/** WCAG 2.x relative luminance (sRGB, D65). */
+export const relativeLuminance = ({ r, g, b }: RgbValues): number =>
+  0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+
+export const rgbToXyz = ({ r, g, b }: RgbValues): XyzValues => {
+  const [x, y, z] = mul(SRGB_TO_XYZ_D50, srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+  return { x, y, z };
+};
+
+export const xyzToRgb = ({ x, y, z }: XyzValues): RgbValues => {
+  const [r, g, b] = mul(XYZ_D50_TO_SRGB, x, y, z);
+  return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+};
+
+export const xyzToLab = ({ x, y, z }: XyzValues, white: XyzValues = D50_WHITE): LabValues => {
+  const f = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+  const fx = f(x / white.x), fy = f(y / white.y), fz = f(z / white.z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToXyz = ({ l, a, b }: LabValues, white: XyzValues = D50_WHITE): XyzValues => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inv = (t: number) => (t * t * t > EPSILON ? t * t * t : (116 * t - 16) / KAPPA);
+  return { x: inv(fx) * white.x, y: (l > KAPPA * EPSILON ? fy * fy * fy : l / KAPPA) * white.y, z: inv(fz) * white.z };
+};
+
+export const rgbToLab = (rgb: RgbValues): LabValues => xyzToLab(rgbToXyz(rgb));
+
+export const labToRgb = (lab: LabValues): RgbValues => xyzToRgb(labToXyz(lab));
+
+/** Whether a CIELAB color lies inside the sRGB gamut. */
+export const isLabInSrgb = (lab: LabValues): boolean => {
+  const { x, y, z } = labToXyz(lab);
+  return inUnitRange(mul(XYZ_D50_TO_SRGB, x, y, z));
+};
+
+export const labToLch = ({ l, a, b }: LabValues): LchValues => ({
+  l,
+  c: Math.hypot(a, b),
+  h: normalizeHue(toDegrees(Math.atan2(b, a))),
+});
+
+export const lchToLab = ({ l, c, h }: LchValues): LabValues => ({
+  l,
+  a: c * Math.cos(toRadians(h)),
+  b: c * Math.sin(toRadians(h)),
+});
+
+// OKLab (Björn Ottosson, 2020), defined on linear sRGB with a D65 white
+export const rgbToOklab = ({ r, g, b }: RgbValues): LabValues => {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  };
+};
+
+const oklabToLinear = ({ l, a, b }: LabValues): [number, number, number] => {
+  const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s_ = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return [
+    4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+    -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+    -0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_,
+  ];
+};
+
+export const oklabToRgb = (lab: LabValues): RgbValues => {
+  const [r, g, b] = oklabToLinear(lab);
+  return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+};
+
+export const isOklabInSrgb = (lab: LabValues): boolean => inUnitRange(oklabToLinear(lab));
+
+export const rgbToOklch = (rgb: RgbValues): LchValues => labToLch(rgbToOklab(rgb));
+
+export const oklchToRgb = (lch: LchValues): RgbValues => oklabToRgb(lchToLab(lch));
+
+export const rgbToHsl = ({ r, g, b }: RgbValues): HslValues => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn), min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l: l * 100 };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  switch (max) {
+    case rn: h = (gn - bn) / d + (gn < bn ? 6 : 0); break;
+    case gn: h = (bn - rn) / d + 2; break;
+    default: h = (rn - gn) / d + 4; break;
+  }
+  return { h: h * 60, s: s * 100, l: l * 100 };
+};
+
+export const hslToRgb = ({ h, s, l }: HslValues): RgbValues => {
+  const sn = s / 100, ln = l / 100;
+  const k = (n: number) => (n + normalizeHue(h) / 30) % 12;
+  const a = sn * Math.min(ln, 1 - ln);
+  const f = (n: number) => ln - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: Math.round(f(0) * 255), g: Math.round(f(8) * 255), b: Math.round(f(4) * 255) };
+};
+
+export const rgbToHsv = ({ r, g, b }: RgbValues): HsvValues => {
+  const { h } = rgbToHsl({ r, g, b });
+  const max = Math.max(r, g, b) / 255, min = Math.min(r, g, b) / 255;
+  return { h, s: max === 0 ? 0 : ((max - min) / max) * 100, v: max * 100 };
+};
+
+export const hsvToRgb = ({ h, s, v }: HsvValues): RgbValues => {
+  const sn = s / 100, vn = v / 100;
+  const f = (n: number) => {
+    const k = (n + normalizeHue(h) / 60) % 6;
+    return vn - vn * sn * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return { r: Math.round(f(5) * 255), g: Math.round(f(3) * 255), b: Math.round(f(1) * 255) };
+};
+
+// --- Color difference --------------------------------------------------------
+
+export const deltaE76 = (x: LabValues, y: LabValues): number =>
+  Math.hypot(x.l - y.l, x.a - y.a, x.b - y.b);
+
+/** CIE94 with graphic-arts weights (kL = 1, K1 = 0.045, K2 = 0.015). */
+export const deltaE94 = (x: LabValues, y: LabValues): number => {
+  const c1 = Math.hypot(x.a, x.b);
+  const c2 = Math.hypot(y.a, y.b);
+  const dL = x.l - y.l;
+  const dC = c1 - c2;
+  const dH2 = Math.max(0, (x.a - y.a) ** 2 + (x.b - y.b) ** 2 - dC ** 2);
+  const sC = 1 + 0.045 * c1;
+  const sH = 1 + 0.015 * c1;
+  return Math.sqrt(dL ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2);
+};
+
+/** CIEDE2000 (Sharma, Wu & Dalal 2005 formulation). */
+export const deltaE2000 = (x: LabValues, y: LabValues): number => {
+  const c1 = Math.hypot(x.a, x.b);
+  const c2 = Math.hypot(y.a, y.b);
+  const cBar7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+  const a1 = (1 + g) * x.a;
+  const a2 = (1 + g) * y.a;
+  const c1p = Math.hypot(a1, x.b);
+  const c2p = Math.hypot(a2, y.b);
+  const h1p = c1p === 0 ? 0 : normalizeHue(toDegrees(Math.atan2(x.b, a1)));
+  const h2p = c2p === 0 ? 0 : normalizeHue(toDegrees(Math.atan2(y.b, a2)));
+
+  const dLp = y.l - x.l;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+  const lBarP = (x.l + y.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP /= 2;
+    else hBarP = h1p + h2p < 360 ? (hBarP + 360) / 2 : (hBarP - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBarP - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBarP))
+    + 0.32 * Math.cos(toRadians(3 * hBarP + 6))
+    - 0.20 * Math.cos(toRadians(4 * hBarP - 63));
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rC = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const sL = 1 + (0.015 * (lBarP - 50) ** 2) / Math.sqrt(20 + (lBarP - 50) ** 2);
+  const sC = 1 + 0.045 * cBarP;
+  const sH = 1 + 0.015 * cBarP * t;
+  const rT = -Math.sin(toRadians(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 + (dCp / sC) ** 2 + (dHp / sH) ** 2 + rT * (dCp / sC) * (dHp / sH)
+  );
+};
@@ -1,5 +1,10 @@
 
-import { ContrastType, PrintConversion, CmykValues } from '../types';
+import { ContrastType, PrintConversion, CmykValues, InkSettings, PressProfile, RgbValues } from '../types';
+import { rgbToStandardCmyk } from './colorManagement';
+import { applyBlackGeneration, applyInkLimit, BLACK_GENERATION_OPTIONS, DEFAULT_INK_SETTINGS } from './inkCoverage';
+import { compensateDotGain, DEFAULT_PRESS_PROFILE, resolveInkSettings } from './pressProfiles';
+import { labToLch, relativeLuminance, rgbToHsl, rgbToHsv, rgbToLab, rgbToOklch } from './colorScience';
+import { getSoftProof } from './softProof';
 
 export const isValidHex = (hex: string): boolean => {
   return /^#?([0-9A-Fa-f]{3}){1,2}$/i.test(hex);
@@ -11,7 +16,7 @@ export const normalizeHex = (hex: string): string => {
   return cleaned.toUpperCase();
 };
 
-export const hexToRgb = (hex: string) => {
+export const hexToRgb = (hex: string): RgbValues => {
   let color = hex.replace('#', '');
   if (color.length === 3) {
     color = color.split('').map(char => char + char).join('');
@@ -23,11 +28,37 @@ export const hexToRgb = (hex: string) => {
   };
 };
 
+export const rgbToHex = ({ r, g, b }: RgbValues): string =>
+  `#${[r, g, b].map(v => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
 export const hexToRgbString = (hex: string): string => {
   const { r, g, b } = hexToRgb(hex);
   return `rgb(${r}, ${g}, ${b})`;
 };
 
+export interface ColorReadout {
+  label: string;
+  value: string;
+}
+
+/** Lab/LCH (D50), OKLCH, HSL and HSV values formatted for display and export. */
+export const getPerceptualReadouts = (hex: string): ColorReadout[] => {
+  const rgb = hexToRgb(normalizeHex(hex));
+  const lab = rgbToLab(rgb);
+  const lch = labToLch(lab);
+  const oklch = rgbToOklch(rgb);
+  const hsl = rgbToHsl(rgb);
+  const hsv = rgbToHsv(rgb);
+  const round = (n: number, digits = 0) => Number(n.toFixed(digits)).toString();
+  return [
+    { label: 'Lab', value: `${round(lab.l, 1)}, ${round(lab.a, 1)}, ${round(lab.b, 1)}` },
+    { label: 'LCH', value: `${round(lch.l, 1)}, ${round(lch.c, 1)}, ${round(lch.h)}°` },
+    { label: 'OKLCH', value: `${round(oklch.l, 3)} ${round(oklch.c, 3)} ${round(oklch.h)}°` },
+    { label: 'HSL', value: `${round(hsl.h)}°, ${round(hsl.s)}%, ${round(hsl.l)}%` },
+    { label: 'HSV', value: `${round(hsv.h)}°, ${round(hsv.s)}%, ${round(hsv.v)}%` },
+  ];
+};
+
 const getHue = (r: number, g: number, b: number) => {
   r /= 255; g /= 255; b /= 255;
   const max = Math.max(r, g, b), min = Math.min(r, g, b);
@@ -44,19 +75,32 @@ const getHue = (r: number, g: number, b: number) => {
   return h * 360;
 };
 
-export const getPrintConversions = (hex: string): PrintConversion => {
+export const getStandardConversion = (
+  hex: string,
+  press: PressProfile = DEFAULT_PRESS_PROFILE
+): PrintConversion['conversions']['standard_auto'] => {
+  const normalized = normalizeHex(hex);
+  const { r, g, b } = hexToRgb(normalized);
+  const standard = rgbToStandardCmyk(r, g, b);
+  const proof = getSoftProof(normalized, standard, press);
+  const outcome = proof.severity === 'out-of-gamut' ? ' Will appear duller on paper.' : '';
+  return {
+    ...standard,
+    description: `${standard.description} Estimated ΔE00 ${proof.deltaE.toFixed(1)} from screen on ${press.paperType.toLowerCase()}.${outcome}`,
+  };
+};
+
+export const getPrintConversions = (
+  hex: string,
+  ink: InkSettings = DEFAULT_INK_SETTINGS,
+  press: PressProfile = DEFAULT_PRESS_PROFILE
+): PrintConversion => {
   const normalized = normalizeHex(hex);
   const { r, g, b } = hexToRgb(normalized);
   
-  // Standard Math Conversion
-  const rPrime = r / 255;
-  const gPrime = g / 255;
-  const bPrime = b / 255;
-  const kStd = 1 - Math.max(rPrime, gPrime, bPrime);
-  const cStd = kStd === 1 ? 0 : Math.round(((1 - rPrime - kStd) / (1 - kStd)) * 100);
-  const mStd = kStd === 1 ? 0 : Math.round(((1 - gPrime - kStd) / (1 - kStd)) * 100);
-  const yStd = kStd === 1 ? 0 : Math.round(((1 - bPrime - kStd) / (1 - kStd)) * 100);
-  const kFinalStd = Math.round(kStd * 100);
+  // Standard conversion (ICC profile when one is active)
+  const standard = getStandardConversion(normalized, press);
+  const { c: cStd, m: mStd, y: yStd, k: kFinalStd } = standard;
 
   // Heuristic Smart Recipe
   let cSmart = cStd, mSmart = mStd, ySmart = yStd, kSmart = kFinalStd;
@@ -93,27 +137,42 @@ export const getPrintConversions = (hex: string): PrintConversion => {
     mods = "Removed Magenta/Black to prevent mudding; relied on heavy Cyan/Yellow mix.";
   }
 
+  // 5. Black Generation (gray component replacement)
+  const generated = applyBlackGeneration({ c: cSmart, m: mSmart, y: ySmart, k: kSmart }, ink.blackGeneration);
+  if (generated.k !== kSmart) {
+    const strategy = BLACK_GENERATION_OPTIONS.find(o => o.id === ink.blackGeneration)?.name;
+    mods = `${mods} ${strategy} moved ${generated.k - kSmart}% of the gray component into Black.`;
+    ({ c: cSmart, m: mSmart, y: ySmart, k: kSmart } = generated);
+  }
+
+  // 6. Dot Gain Compensation for the target press/paper
+  const compensated = [cSmart, mSmart, ySmart, kSmart].map(v => compensateDotGain(v, press));
+  if (compensated.some((v, i) => v !== [cSmart, mSmart, ySmart, kSmart][i])) {
+    const direction = press.dotGain > DEFAULT_PRESS_PROFILE.dotGain ? 'Lightened' : 'Deepened';
+    mods = `${mods} ${direction} midtones for ${press.dotGain}% dot gain on ${press.paperType.toLowerCase()}.`;
+    [cSmart, mSmart, ySmart, kSmart] = compensated;
+  }
+
   return {
     input_hex: normalized,
     conversions: {
-      standard_auto: {
-        c: cStd, m: mStd, y: yStd, k: kFinalStd,
-        description: "Standard mathematical conversion. May appear duller on paper."
-      },
-      smart_print_recipe: {
+      standard_auto: standard,
+      smart_print_recipe: applyInkLimit({
         c: cSmart, m: mSmart, y: ySmart, k: kSmart,
         modifications_made: mods,
-        paper_type: "Regular Stock"
-      }
+        paper_type: press.paperType
+      }, resolveInkSettings(ink, press).tacLimit)
     }
   };
 };
 
+/** Whether dark or light text reads better on the given background, by WCAG contrast ratio. */
 export const getContrastType = (hex: string): ContrastType => {
   if (!isValidHex(hex)) return ContrastType.DARK;
-  const { r, g, b } = hexToRgb(hex);
-  const yiq = (r * 299 + g * 587 + b * 114) / 1000;
-  return yiq >= 128 ? ContrastType.DARK : ContrastType.LIGHT;
+  const luminance = relativeLuminance(hexToRgb(hex));
+  const againstBlack = (luminance + 0.05) / 0.05;
+  const againstWhite = 1.05 / (luminance + 0.05);
+  return againstBlack >= againstWhite ? ContrastType.DARK : ContrastType.LIGHT;
 };
 
 export const copyToClipboard = async (text: string): Promise<boolean> => {
@@ -125,3 +184,16 @@ export const copyToClipboard = async (text: string): Promise<boolean> => {
     return false;
   }
 };
+
+/** Narrows parsed JSON to a plain object whose fields can be read. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,78 @@
+import { relativeLuminance } from './colorScience';
+import { hexToRgb, normalizeHex } from './colorUtils';
+
+export interface WcagRating {
+  ratio: number;
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+}
+
+export interface ContrastResult extends WcagRating {
+  text: string;
+  background: string;
+  /** APCA lightness contrast; positive for dark-on-light, negative for light-on-dark. */
+  apca: number;
+}
+
+export const wcagContrastRatio = (foreground: string, background: string): number => {
+  const l1 = relativeLuminance(hexToRgb(normalizeHex(foreground)));
+  const l2 = relativeLuminance(hexToRgb(normalizeHex(background)));
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+export const rateWcagContrast = (ratio: number): WcagRating => ({
+  ratio,
+  aaNormal: ratio >= 4.5,
+  aaLarge: ratio >= 3,
+  aaaNormal: ratio >= 7,
+  aaaLarge: ratio >= 4.5,
+});
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTrc: 2.4,
+  rCo: 0.2126729, gCo: 0.7151522, bCo: 0.0721750,
+  normBg: 0.56, normTxt: 0.57, revTxt: 0.62, revBg: 0.65,
+  blkThrs: 0.022, blkClmp: 1.414,
+  scale: 1.14, loOffset: 0.027, loClip: 0.1, deltaYmin: 0.0005,
+};
+
+const apcaLuminance = (hex: string) => {
+  const { r, g, b } = hexToRgb(normalizeHex(hex));
+  const y = APCA.rCo * Math.pow(r / 255, APCA.mainTrc)
+    + APCA.gCo * Math.pow(g / 255, APCA.mainTrc)
+    + APCA.bCo * Math.pow(b / 255, APCA.mainTrc);
+  return y < APCA.blkThrs ? y + Math.pow(APCA.blkThrs - y, APCA.blkClmp) : y;
+};
+
+/** APCA Lc value for text on a background. */
+export const apcaContrast = (text: string, background: string): number => {
+  const yTxt = apcaLuminance(text);
+  const yBg = apcaLuminance(background);
+  if (Math.abs(yBg - yTxt) < APCA.deltaYmin) return 0;
+
+  if (yBg > yTxt) {
+    const sapc = (Math.pow(yBg, APCA.normBg) - Math.pow(yTxt, APCA.normTxt)) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+  const sapc = (Math.pow(yBg, APCA.revBg) - Math.pow(yTxt, APCA.revTxt)) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+};
+
+export const getContrast = (text: string, background: string): ContrastResult => ({
+  text: normalizeHex(text),
+  background: normalizeHex(background),
+  ...rateWcagContrast(wcagContrastRatio(text, background)),
+  apca: apcaContrast(text, background),
+});
+
+/** Rows and columns of a contrast matrix: the given colors plus black and white. */
+export const buildContrastMatrix = (hexes: string[]): { colors: string[]; cells: ContrastResult[][] } => {
+  const colors = Array.from(new Set([...hexes.map(normalizeHex), '#000000', '#FFFFFF']));
+  return {
+    colors,
+    cells: colors.map(text => colors.map(background => getContrast(text, background))),
+  };
+};
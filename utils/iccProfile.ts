@@ -0,0 +1,382 @@
+import { CmykValues, LabValues, RenderingIntent, XyzValues } from '../types';
+import { D50_WHITE, labToXyz, rgbToXyz, xyzToLab } from './colorScience';
+
+// Minimal ICC v2/v4 reader for CMYK output profiles. Supports the LUT-based
+// tag types print profiles actually ship with (lut8, lut16, lutAtoB, lutBtoA)
+// and evaluates them with multilinear CLUT interpolation.
+
+type Curve = (x: number) => number;
+type PcsEncoding = 'legacy16' | 'v4';
+
+interface Lut {
+  inputChannels: number;
+  outputChannels: number;
+  encoding: PcsEncoding;
+  evaluate: (input: number[]) => number[];
+}
+
+export interface IccProfile {
+  description: string;
+  version: number;
+  deviceClass: string;
+  colorSpace: string;
+  pcs: 'Lab' | 'XYZ';
+  mediaWhite: XyzValues;
+  aToB: Partial<Record<0 | 1 | 2, Lut>>;
+  bToA: Partial<Record<0 | 1 | 2, Lut>>;
+}
+
+export interface CmykTransform {
+  fromRgb: (r: number, g: number, b: number) => CmykValues;
+  toLab: (cmyk: CmykValues) => LabValues;
+}
+
+const readSig = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1),
+    view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+
+const readS15Fixed16 = (view: DataView, offset: number) => view.getInt32(offset) / 65536;
+
+const clamp01 = (n: number) => (n < 0 ? 0 : n > 1 ? 1 : n);
+
+const identity: Curve = x => x;
+
+const tableCurve = (table: ArrayLike<number>, max: number): Curve => {
+  const n = table.length;
+  return x => {
+    const pos = clamp01(x) * (n - 1);
+    const i = Math.min(n - 2, Math.floor(pos));
+    const f = pos - i;
+    return (table[i] * (1 - f) + table[i + 1] * f) / max;
+  };
+};
+
+/** Parses a `curv` or `para` element and reports how many bytes it occupied. */
+const readCurve = (view: DataView, offset: number): { curve: Curve; byteLength: number } => {
+  const sig = readSig(view, offset);
+  if (sig === 'curv') {
+    const count = view.getUint32(offset + 8);
+    const byteLength = 12 + count * 2;
+    if (count === 0) return { curve: identity, byteLength };
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256;
+      return { curve: x => Math.pow(clamp01(x), gamma), byteLength };
+    }
+    const table = new Uint16Array(count);
+    for (let i = 0; i < count; i++) table[i] = view.getUint16(offset + 12 + i * 2);
+    return { curve: tableCurve(table, 65535), byteLength };
+  }
+  if (sig === 'para') {
+    const type = view.getUint16(offset + 8);
+    const paramCount = [1, 3, 4, 5, 7][type];
+    if (paramCount === undefined) throw new Error(`Unsupported parametric curve type ${type}`);
+    const p = Array.from({ length: paramCount }, (_, i) => readS15Fixed16(view, offset + 12 + i * 4));
+    const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = p;
+    let fn: Curve;
+    switch (type) {
+      case 0: fn = x => Math.pow(x, g); break;
+      case 1: fn = x => (x >= -b / a ? Math.pow(a * x + b, g) : 0); break;
+      case 2: fn = x => (x >= -b / a ? Math.pow(a * x + b, g) + c : c); break;
+      case 3: fn = x => (x >= d ? Math.pow(a * x + b, g) : c * x); break;
+      default: fn = x => (x >= d ? Math.pow(a * x + b, g) + e : c * x + f); break;
+    }
+    return { curve: x => clamp01(fn(clamp01(x))), byteLength: 12 + paramCount * 4 };
+  }
+  throw new Error(`Unsupported curve type "${sig}"`);
+};
+
+const readCurves = (view: DataView, offset: number, count: number): Curve[] => {
+  const curves: Curve[] = [];
+  let pos = offset;
+  for (let i = 0; i < count; i++) {
+    const { curve, byteLength } = readCurve(view, pos);
+    curves.push(curve);
+    pos += byteLength;
+    pos += (4 - (pos % 4)) % 4;
+  }
+  return curves;
+};
+
+/** Multilinear interpolation over an n-dimensional grid of `outputs`-wide samples. */
+const makeClut = (grid: number[], outputs: number, data: ArrayLike<number>, max: number) => {
+  const dims = grid.length;
+  const strides = new Array<number>(dims);
+  let stride = outputs;
+  for (let i = dims - 1; i >= 0; i--) {
+    strides[i] = stride;
+    stride *= grid[i];
+  }
+  const corners = 1 << dims;
+
+  return (input: number[]): number[] => {
+    const base = new Array<number>(dims);
+    const frac = new Array<number>(dims);
+    for (let i = 0; i < dims; i++) {
+      const pos = clamp01(input[i]) * (grid[i] - 1);
+      const idx = Math.min(grid[i] - 2, Math.floor(pos));
+      base[i] = Math.max(0, idx);
+      frac[i] = grid[i] > 1 ? pos - base[i] : 0;
+    }
+    const out = new Array<number>(outputs).fill(0);
+    for (let corner = 0; corner < corners; corner++) {
+      let weight = 1;
+      let index = 0;
+      for (let i = 0; i < dims; i++) {
+        const bit = (corner >> (dims - 1 - i)) & 1;
+        weight *= bit ? frac[i] : 1 - frac[i];
+        index += (base[i] + (grid[i] > 1 ? bit : 0)) * strides[i];
+      }
+      if (weight === 0) continue;
+      for (let o = 0; o < outputs; o++) out[o] += weight * data[index + o];
+    }
+    return out.map(v => v / max);
+  };
+};
+
+const applyMatrix = (m: number[], v: number[], offset?: number[]) => [
+  m[0] * v[0] + m[1] * v[1] + m[2] * v[2] + (offset?.[0] ?? 0),
+  m[3] * v[0] + m[4] * v[1] + m[5] * v[2] + (offset?.[1] ?? 0),
+  m[6] * v[0] + m[7] * v[1] + m[8] * v[2] + (offset?.[2] ?? 0),
+];
+
+/** lut8Type (`mft1`) and lut16Type (`mft2`). */
+const readLutMft = (view: DataView, offset: number, pcs: IccProfile['pcs'], sig: string): Lut => {
+  const wide = sig === 'mft2';
+  const inCh = view.getUint8(offset + 8);
+  const outCh = view.getUint8(offset + 9);
+  const gridPoints = view.getUint8(offset + 10);
+  const matrix = Array.from({ length: 9 }, (_, i) => readS15Fixed16(view, offset + 12 + i * 4));
+  const inEntries = wide ? view.getUint16(offset + 48) : 256;
+  const outEntries = wide ? view.getUint16(offset + 50) : 256;
+  const max = wide ? 65535 : 255;
+  const size = wide ? 2 : 1;
+  const read = (pos: number) => (wide ? view.getUint16(pos) : view.getUint8(pos));
+
+  let pos = offset + (wide ? 52 : 48);
+  const readTable = (entries: number) => {
+    const table = new Array<number>(entries);
+    for (let i = 0; i < entries; i++) table[i] = read(pos + i * size);
+    pos += entries * size;
+    return tableCurve(table, max);
+  };
+
+  const inputCurves = Array.from({ length: inCh }, () => readTable(inEntries));
+  const clutSize = Math.pow(gridPoints, inCh) * outCh;
+  const clutData = new Array<number>(clutSize);
+  for (let i = 0; i < clutSize; i++) clutData[i] = read(pos + i * size);
+  pos += clutSize * size;
+  const clut = makeClut(new Array(inCh).fill(gridPoints), outCh, clutData, max);
+  const outputCurves = Array.from({ length: outCh }, () => readTable(outEntries));
+  const useMatrix = inCh === 3 && pcs === 'XYZ';
+
+  return {
+    inputChannels: inCh,
+    outputChannels: outCh,
+    encoding: wide ? 'legacy16' : 'v4',
+    evaluate: input => {
+      const v = useMatrix ? applyMatrix(matrix, input) : input;
+      const curved = v.map((x, i) => inputCurves[i](x));
+      return clut(curved).map((x, i) => outputCurves[i](x));
+    },
+  };
+};
+
+const readClutElement = (view: DataView, offset: number, inCh: number, outCh: number) => {
+  const grid = Array.from({ length: inCh }, (_, i) => view.getUint8(offset + i));
+  const precision = view.getUint8(offset + 16);
+  const size = grid.reduce((acc, g) => acc * g, 1) * outCh;
+  const data = new Array<number>(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = precision === 1
+      ? view.getUint8(offset + 20 + i)
+      : view.getUint16(offset + 20 + i * 2);
+  }
+  return makeClut(grid, outCh, data, precision === 1 ? 255 : 65535);
+};
+
+/** lutAtoBType (`mAB `) and lutBtoAType (`mBA `). */
+const readLutMab = (view: DataView, offset: number, sig: string): Lut => {
+  const aToB = sig === 'mAB ';
+  const inCh = view.getUint8(offset + 8);
+  const outCh = view.getUint8(offset + 9);
+  const offB = view.getUint32(offset + 12);
+  const offMatrix = view.getUint32(offset + 16);
+  const offM = view.getUint32(offset + 20);
+  const offClut = view.getUint32(offset + 24);
+  const offA = view.getUint32(offset + 28);
+
+  // B curves sit on the PCS side, A curves on the device side.
+  const bCount = aToB ? outCh : inCh;
+  const aCount = aToB ? inCh : outCh;
+  const bCurves = offB ? readCurves(view, offset + offB, bCount) : null;
+  const mCurves = offM ? readCurves(view, offset + offM, 3) : null;
+  const aCurves = offA ? readCurves(view, offset + offA, aCount) : null;
+  const clut = offClut ? readClutElement(view, offset + offClut, inCh, outCh) : null;
+  let matrix: number[] | null = null;
+  let matrixOffset: number[] | undefined;
+  if (offMatrix) {
+    const values = Array.from({ length: 12 }, (_, i) => readS15Fixed16(view, offset + offMatrix + i * 4));
+    matrix = values.slice(0, 9);
+    matrixOffset = values.slice(9);
+  }
+
+  const curves = (list: Curve[] | null, v: number[]) => (list ? v.map((x, i) => list[i](x)) : v);
+  const mat = (v: number[]) => (matrix ? applyMatrix(matrix, v, matrixOffset).map(clamp01) : v);
+  const lookup = (v: number[]) => (clut ? clut(v) : v);
+
+  return {
+    inputChannels: inCh,
+    outputChannels: outCh,
+    encoding: 'v4',
+    evaluate: aToB
+      ? input => curves(bCurves, mat(curves(mCurves, lookup(curves(aCurves, input)))))
+      : input => curves(aCurves, lookup(curves(mCurves, mat(curves(bCurves, input))))),
+  };
+};
+
+const readLut = (view: DataView, offset: number, pcs: IccProfile['pcs']): Lut => {
+  const sig = readSig(view, offset);
+  if (sig === 'mft1' || sig === 'mft2') return readLutMft(view, offset, pcs, sig);
+  if (sig === 'mAB ' || sig === 'mBA ') return readLutMab(view, offset, sig);
+  throw new Error(`Unsupported LUT type "${sig}"`);
+};
+
+const readDescription = (view: DataView, offset: number): string => {
+  const sig = readSig(view, offset);
+  if (sig === 'desc') {
+    const length = view.getUint32(offset + 8);
+    let text = '';
+    for (let i = 0; i < length - 1; i++) text += String.fromCharCode(view.getUint8(offset + 12 + i));
+    return text;
+  }
+  if (sig === 'mluc') {
+    const length = view.getUint32(offset + 16 + 4);
+    const start = view.getUint32(offset + 16 + 8);
+    let text = '';
+    for (let i = 0; i < length; i += 2) text += String.fromCharCode(view.getUint16(offset + start + i));
+    return text;
+  }
+  return '';
+};
+
+export const parseIccProfile = (buffer: ArrayBuffer): IccProfile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 132 || readSig(view, 36) !== 'acsp') {
+    throw new Error('Not an ICC profile');
+  }
+  const colorSpace = readSig(view, 16).trim();
+  const pcsSig = readSig(view, 20).trim();
+  if (colorSpace !== 'CMYK') throw new Error(`Expected a CMYK output profile, got ${colorSpace}`);
+  if (pcsSig !== 'Lab' && pcsSig !== 'XYZ') throw new Error(`Unsupported PCS ${pcsSig}`);
+  const pcs = pcsSig as IccProfile['pcs'];
+
+  const profile: IccProfile = {
+    description: '',
+    version: view.getUint8(8),
+    deviceClass: readSig(view, 12),
+    colorSpace,
+    pcs,
+    mediaWhite: D50_WHITE,
+    aToB: {},
+    bToA: {},
+  };
+
+  const tagCount = view.getUint32(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    const sig = readSig(view, entry);
+    const offset = view.getUint32(entry + 4);
+    const lutMatch = /^(A2B|B2A)([012])$/.exec(sig);
+    if (lutMatch) {
+      const slot = Number(lutMatch[2]) as 0 | 1 | 2;
+      const lut = readLut(view, offset, pcs);
+      (lutMatch[1] === 'A2B' ? profile.aToB : profile.bToA)[slot] = lut;
+    } else if (sig === 'desc') {
+      profile.description = readDescription(view, offset).trim();
+    } else if (sig === 'wtpt' && readSig(view, offset) === 'XYZ ') {
+      const [x, y, z] = [0, 1, 2].map(j => readS15Fixed16(view, offset + 8 + j * 4));
+      profile.mediaWhite = { x, y, z };
+    }
+  }
+
+  if (!profile.bToA[0] && !profile.bToA[1]) throw new Error('Profile has no PCS→CMYK (B2A) table');
+  return profile;
+};
+
+// --- PCS conversions -------------------------------------------------------
+
+const encodePcs = (lut: Lut, pcs: IccProfile['pcs'], xyz: XyzValues): number[] => {
+  if (pcs === 'XYZ') return [xyz.x, xyz.y, xyz.z].map(v => clamp01(v * 32768 / 65535));
+  const { l, a, b } = xyzToLab(xyz);
+  if (lut.encoding === 'legacy16') {
+    return [l * 652.8 / 65535, (a + 128) * 256 / 65535, (b + 128) * 256 / 65535].map(clamp01);
+  }
+  return [l / 100, (a + 128) / 255, (b + 128) / 255].map(clamp01);
+};
+
+const decodePcs = (lut: Lut, pcs: IccProfile['pcs'], v: number[]): LabValues => {
+  if (pcs === 'XYZ') {
+    const [x, y, z] = v.map(n => n * 65535 / 32768);
+    return xyzToLab({ x, y, z });
+  }
+  if (lut.encoding === 'legacy16') {
+    return { l: v[0] * 65535 / 652.8, a: v[1] * 65535 / 256 - 128, b: v[2] * 65535 / 256 - 128 };
+  }
+  return { l: v[0] * 100, a: v[1] * 255 - 128, b: v[2] * 255 - 128 };
+};
+
+const toCmyk = (v: number[]): CmykValues => {
+  const [c, m, y, k] = v.map(x => Math.round(clamp01(x) * 100));
+  return { c, m, y, k };
+};
+
+/**
+ * Builds an sRGB → CMYK transform through the profile's B2A table for the
+ * given intent. Relative colorimetric with BPC scales the source XYZ so that
+ * sRGB black lands on the profile's darkest reproducible black.
+ */
+export const createCmykTransform = (profile: IccProfile, intent: RenderingIntent): CmykTransform => {
+  const slot = intent === 'perceptual' ? 0 : 1;
+  const bToA = profile.bToA[slot] ?? profile.bToA[0] ?? profile.bToA[1];
+  const aToB = profile.aToB[slot] ?? profile.aToB[0] ?? profile.aToB[1];
+  if (!bToA) throw new Error('Profile has no PCS→CMYK (B2A) table');
+
+  const toLab = (cmyk: CmykValues): LabValues => {
+    if (!aToB) return { l: 100 - cmyk.k, a: 0, b: 0 };
+    const out = aToB.evaluate([cmyk.c, cmyk.m, cmyk.y, cmyk.k].map(v => v / 100));
+    return decodePcs(aToB, profile.pcs, out);
+  };
+
+  let blackPoint: XyzValues = { x: 0, y: 0, z: 0 };
+  if (intent === 'relative-bpc' && aToB) {
+    // Detect the destination black by round-tripping PCS black through the profile.
+    const darkest = bToA.evaluate(encodePcs(bToA, profile.pcs, { x: 0, y: 0, z: 0 }));
+    const lab = decodePcs(aToB, profile.pcs, aToB.evaluate(darkest));
+    blackPoint = labToXyz({ l: Math.max(0, lab.l), a: 0, b: 0 });
+  }
+
+  const memo = new Map<number, CmykValues>();
+
+  return {
+    toLab,
+    fromRgb: (r, g, b) => {
+      const key = (r << 16) | (g << 8) | b;
+      const hit = memo.get(key);
+      if (hit) return hit;
+      let xyz = rgbToXyz({ r, g, b });
+      if (intent === 'relative-bpc') {
+        const scale = (v: number, white: number, black: number) => v * (white - black) / white + black;
+        xyz = {
+          x: scale(xyz.x, D50_WHITE.x, blackPoint.x),
+          y: scale(xyz.y, D50_WHITE.y, blackPoint.y),
+          z: scale(xyz.z, D50_WHITE.z, blackPoint.z),
+        };
+      }
+      const result = toCmyk(bToA.evaluate(encodePcs(bToA, profile.pcs, xyz)));
+      memo.set(key, result);
+      return result;
+    },
+  };
+};
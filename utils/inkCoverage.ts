@@ -0,0 +1,85 @@
+import { BlackGeneration, CmykValues, InkSettings } from '../types';
+
+export const TAC_MIN = 240;
+export const TAC_MAX = 340;
+
+export const DEFAULT_INK_SETTINGS: InkSettings = {
+  tacLimit: 300,
+  blackGeneration: 'gcr-medium',
+};
+
+export const BLACK_GENERATION_OPTIONS: { id: BlackGeneration; name: string }[] = [
+  { id: 'ucr', name: 'UCR' },
+  { id: 'gcr-light', name: 'Light GCR' },
+  { id: 'gcr-medium', name: 'Medium GCR' },
+  { id: 'gcr-heavy', name: 'Heavy GCR' },
+];
+
+// Share of the gray component (min of C, M, Y) moved into black for each GCR level
+const GCR_AMOUNT: Record<Exclude<BlackGeneration, 'ucr'>, number> = {
+  'gcr-light': 0.3,
+  'gcr-medium': 0.6,
+  'gcr-heavy': 0.9,
+};
+
+// UCR only removes color under neutral shadows, above this gray component
+const UCR_THRESHOLD = 50;
+
+export const clampTacLimit = (limit: number) =>
+  Math.max(TAC_MIN, Math.min(TAC_MAX, Math.round(limit)));
+
+export const getTotalInk = ({ c, m, y, k }: CmykValues) => c + m + y + k;
+
+const replaceGray = ({ c, m, y, k }: CmykValues, amount: number): CmykValues => {
+  const moved = Math.max(0, Math.min(amount, c, m, y, 100 - k));
+  return { c: c - moved, m: m - moved, y: y - moved, k: k + moved };
+};
+
+export const applyBlackGeneration = (cmyk: CmykValues, strategy: BlackGeneration): CmykValues => {
+  const gray = Math.min(cmyk.c, cmyk.m, cmyk.y);
+  const amount = strategy === 'ucr'
+    ? gray - UCR_THRESHOLD
+    : Math.round(gray * GCR_AMOUNT[strategy]);
+  return replaceGray(cmyk, amount);
+};
+
+/**
+ * Brings a build under the total area coverage limit: first by replacing the
+ * remaining gray component with black, then by scaling C/M/Y down evenly.
+ */
+export const enforceTac = (cmyk: CmykValues, limit: number): { cmyk: CmykValues; adjusted: boolean } => {
+  if (getTotalInk(cmyk) <= limit) return { cmyk, adjusted: false };
+
+  // Each point moved into black takes three points of C/M/Y and adds one of K
+  let next = replaceGray(cmyk, Math.ceil((getTotalInk(cmyk) - limit) / 2));
+  if (getTotalInk(next) > limit) {
+    const cmy = next.c + next.m + next.y;
+    const scale = Math.max(0, limit - next.k) / cmy;
+    next = {
+      c: Math.floor(next.c * scale),
+      m: Math.floor(next.m * scale),
+      y: Math.floor(next.y * scale),
+      k: next.k,
+    };
+  }
+  return { cmyk: next, adjusted: true };
+};
+
+type RecipeInput = CmykValues & { modifications_made: string };
+
+/** Validates a smart recipe (heuristic or AI) against the ink limit and records its coverage. */
+export const applyInkLimit = <T extends RecipeInput>(recipe: T, tacLimit: number) => {
+  const before = getTotalInk(recipe);
+  const { cmyk, adjusted } = enforceTac(recipe, tacLimit);
+  return {
+    ...recipe,
+    ...cmyk,
+    modifications_made: adjusted
+      ? `${recipe.modifications_made} Reduced from ${before}% to ${getTotalInk(cmyk)}% total ink to stay within the ${tacLimit}% limit.`
+      : recipe.modifications_made,
+    total_ink: getTotalInk(cmyk),
+    tac_limit: tacLimit,
+    tac_adjusted: adjusted,
+    tac_exceeded: false,
+  };
+};
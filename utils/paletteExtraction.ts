@@ -0,0 +1,119 @@
+import { LabValues } from '../types';
+import { oklabToRgb, rgbToOklab } from './colorScience';
+import { rgbToHex } from './colorUtils';
+
+// Dominant-color extraction by k-means in OKLab. Kept free of DOM and storage
+// access so it can run inside the extraction worker.
+
+export interface ExtractionOptions {
+  count: number;
+  /** Skip near-white and near-black pixels, which are usually background. */
+  ignoreBackground: boolean;
+}
+
+export interface ExtractedColor {
+  hex: string;
+  /** Fraction of the counted pixels assigned to this color. */
+  share: number;
+}
+
+export const DEFAULT_EXTRACTION_OPTIONS: ExtractionOptions = { count: 6, ignoreBackground: true };
+
+const MAX_ITERATIONS = 16;
+const ALPHA_CUTOFF = 128;
+const BACKGROUND_CHROMA = 0.03;
+const WHITE_L = 0.95;
+const BLACK_L = 0.18;
+// OKLab distance under which two clusters count as the same color
+const MERGE_DISTANCE = 0.04;
+
+const distance = (x: LabValues, y: LabValues) =>
+  (x.l - y.l) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2;
+
+// Small deterministic PRNG so the same image always yields the same palette
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const collectPixels = (data: Uint8ClampedArray, ignoreBackground: boolean): LabValues[] => {
+  const pixels: LabValues[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < ALPHA_CUTOFF) continue;
+    const lab = rgbToOklab({ r: data[i], g: data[i + 1], b: data[i + 2] });
+    if (ignoreBackground && Math.hypot(lab.a, lab.b) < BACKGROUND_CHROMA && (lab.l > WHITE_L || lab.l < BLACK_L)) continue;
+    pixels.push(lab);
+  }
+  return pixels;
+};
+
+/** k-means++ seeding: each new center is picked with probability proportional to its squared distance. */
+const seedCenters = (pixels: LabValues[], count: number, random: () => number): LabValues[] => {
+  const centers = [pixels[Math.floor(random() * pixels.length)]];
+  const nearest = pixels.map(p => distance(p, centers[0]));
+  while (centers.length < count) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    let index = 0;
+    while (target > nearest[index] && index < pixels.length - 1) target -= nearest[index++];
+    centers.push(pixels[index]);
+    for (let i = 0; i < pixels.length; i++) nearest[i] = Math.min(nearest[i], distance(pixels[i], pixels[index]));
+  }
+  return centers;
+};
+
+export const extractPalette = (data: Uint8ClampedArray, options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS): ExtractedColor[] => {
+  const pixels = collectPixels(data, options.ignoreBackground);
+  if (pixels.length === 0) return [];
+
+  let centers = seedCenters(pixels, Math.min(options.count, pixels.length), mulberry32(pixels.length));
+  const assignment = new Int32Array(pixels.length);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (let i = 0; i < pixels.length; i++) {
+      let best = 0, bestDistance = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const d = distance(pixels[i], centers[c]);
+        if (d < bestDistance) { bestDistance = d; best = c; }
+      }
+      if (assignment[i] !== best) { assignment[i] = best; changed = true; }
+    }
+
+    const sums = centers.map(() => ({ l: 0, a: 0, b: 0, n: 0 }));
+    for (let i = 0; i < pixels.length; i++) {
+      const sum = sums[assignment[i]];
+      sum.l += pixels[i].l; sum.a += pixels[i].a; sum.b += pixels[i].b; sum.n++;
+    }
+    centers = sums.map((s, c) => (s.n ? { l: s.l / s.n, a: s.a / s.n, b: s.b / s.n } : centers[c]));
+    if (!changed && iteration > 0) break;
+  }
+
+  const counts = new Array(centers.length).fill(0);
+  for (let i = 0; i < pixels.length; i++) counts[assignment[i]]++;
+
+  // Fold clusters that ended up visually identical into the larger one
+  const kept: { center: LabValues; n: number }[] = [];
+  centers
+    .map((center, c) => ({ center, n: counts[c] }))
+    .filter(c => c.n > 0)
+    .sort((x, y) => y.n - x.n)
+    .forEach(cluster => {
+      const twin = kept.find(k => distance(k.center, cluster.center) < MERGE_DISTANCE ** 2);
+      if (twin) twin.n += cluster.n;
+      else kept.push(cluster);
+    });
+
+  const byHex = new Map<string, number>();
+  for (const { center, n } of kept) {
+    const hex = rgbToHex(oklabToRgb(center));
+    byHex.set(hex, (byHex.get(hex) ?? 0) + n);
+  }
+
+  return Array.from(byHex, ([hex, n]) => ({ hex, share: n / pixels.length }))
+    .sort((x, y) => y.share - x.share);
+};
@@ -0,0 +1,84 @@
+import { LchValues } from '../types';
+import { isOklabInSrgb, lchToLab, oklchToRgb, rgbToOklch } from './colorScience';
+import { hexToRgb, normalizeHex, rgbToHex } from './colorUtils';
+
+export type HarmonyKind = 'complementary' | 'analogous' | 'triadic' | 'tetradic' | 'split-complementary';
+export type GeneratorKind = HarmonyKind | 'scale';
+
+export const GENERATOR_KINDS: { id: GeneratorKind; name: string }[] = [
+  { id: 'scale', name: '50–950 Scale' },
+  { id: 'complementary', name: 'Complementary' },
+  { id: 'analogous', name: 'Analogous' },
+  { id: 'triadic', name: 'Triadic' },
+  { id: 'tetradic', name: 'Tetradic' },
+  { id: 'split-complementary', name: 'Split Complementary' },
+];
+
+export interface GeneratedColor {
+  hex: string;
+  label: string;
+  /** Whether chroma had to be reduced to fit sRGB. */
+  clipped: boolean;
+}
+
+// Hue offsets in degrees, relative to the source color
+const HARMONY_OFFSETS: Record<HarmonyKind, number[]> = {
+  complementary: [180],
+  analogous: [-30, 30],
+  triadic: [120, 240],
+  tetradic: [90, 180, 270],
+  'split-complementary': [150, 210],
+};
+
+// OKLCH lightness per scale step, evenly spaced in perceived lightness
+export const SCALE_STEPS: { step: number; l: number }[] = [
+  { step: 50, l: 0.975 },
+  { step: 100, l: 0.94 },
+  { step: 200, l: 0.885 },
+  { step: 300, l: 0.81 },
+  { step: 400, l: 0.725 },
+  { step: 500, l: 0.64 },
+  { step: 600, l: 0.555 },
+  { step: 700, l: 0.475 },
+  { step: 800, l: 0.395 },
+  { step: 900, l: 0.32 },
+  { step: 950, l: 0.245 },
+];
+
+/** Keeps lightness and hue, lowering chroma until the color fits in sRGB. */
+const fitToSrgb = (lch: LchValues): Omit<GeneratedColor, 'label'> => {
+  if (isOklabInSrgb(lchToLab(lch))) return { hex: rgbToHex(oklchToRgb(lch)), clipped: false };
+  let lo = 0, hi = lch.c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2;
+    if (isOklabInSrgb(lchToLab({ ...lch, c: mid }))) lo = mid;
+    else hi = mid;
+  }
+  return { hex: rgbToHex(oklchToRgb({ ...lch, c: lo })), clipped: true };
+};
+
+const hueName = (offset: number) => `${offset > 0 ? '+' : ''}${offset}°`;
+
+export const generateHarmony = (hex: string, kind: HarmonyKind): GeneratedColor[] => {
+  const source = rgbToOklch(hexToRgb(normalizeHex(hex)));
+  return HARMONY_OFFSETS[kind].map(offset => {
+    const { hex: generated, clipped } = fitToSrgb({ ...source, h: (source.h + offset + 360) % 360 });
+    return { hex: generated, label: hueName(offset), clipped };
+  });
+};
+
+/**
+ * Tints and shades at fixed OKLCH lightness steps. Chroma follows the source,
+ * tapering toward the light and dark ends where sRGB narrows anyway.
+ */
+export const generateScale = (hex: string): GeneratedColor[] => {
+  const source = rgbToOklch(hexToRgb(normalizeHex(hex)));
+  return SCALE_STEPS.map(({ step, l }) => {
+    const taper = 1 - Math.pow(Math.abs(l - source.l) / Math.max(source.l, 1 - source.l, 0.01), 2) * 0.75;
+    const { hex: generated, clipped } = fitToSrgb({ l, c: source.c * Math.max(0.2, taper), h: source.h });
+    return { hex: generated, label: String(step), clipped };
+  });
+};
+
+export const generatePalette = (hex: string, kind: GeneratorKind): GeneratedColor[] =>
+  kind === 'scale' ? generateScale(hex) : generateHarmony(hex, kind);
@@ -0,0 +1,115 @@
+import { Collection, ColorRecord } from '../types';
+import { MAX_SELECTED, normalizeTags } from './collections';
+
+export type ImportAction = 'add' | 'merge' | 'replace' | 'rename' | 'skip';
+
+export interface ImportPlanItem {
+  incoming: Collection;
+  /** Existing collection with the same ID, or failing that the same name. */
+  conflict?: Collection;
+  action: ImportAction;
+}
+
+export const IMPORT_ACTIONS: { id: ImportAction; name: string; description: string }[] = [
+  { id: 'add', name: 'Add', description: 'Add as a new collection' },
+  { id: 'merge', name: 'Merge', description: 'Add new colors to the existing collection, skipping hexes it already has' },
+  { id: 'replace', name: 'Replace', description: 'Overwrite the existing collection' },
+  { id: 'rename', name: 'Keep Both', description: 'Add alongside the existing collection under a new name' },
+  { id: 'skip', name: 'Skip', description: 'Leave this collection out' },
+];
+
+/** Actions offered for an item: conflicts can merge, replace or keep both; new collections can only be added. */
+export const actionsFor = (item: ImportPlanItem): ImportAction[] =>
+  item.conflict ? ['merge', 'replace', 'rename', 'skip'] : ['add', 'skip'];
+
+const newId = () => Math.random().toString(36).substring(7);
+
+const findConflict = (existing: Collection[], incoming: Collection) =>
+  existing.find(c => c.id === incoming.id) ??
+  existing.find(c => c.name.trim().toLowerCase() === incoming.name.trim().toLowerCase());
+
+export const planImport = (existing: Collection[], incoming: Collection[]): ImportPlanItem[] =>
+  incoming.map(collection => {
+    const conflict = findConflict(existing, collection);
+    return { incoming: collection, conflict, action: conflict ? 'merge' : 'add' };
+  });
+
+const uniqueName = (name: string, taken: Collection[]) => {
+  const names = new Set(taken.map(c => c.name.toLowerCase()));
+  if (!names.has(name.toLowerCase())) return name;
+  let candidate = `${name} (imported)`;
+  for (let n = 2; names.has(candidate.toLowerCase()); n++) candidate = `${name} (imported ${n})`;
+  return candidate;
+};
+
+/**
+ * Folds `incoming` into `target`. Colors are matched by hex: a match keeps the
+ * existing record and only fills in details it lacks, anything else is appended
+ * under an ID free in the target. Incoming selections follow the mapping.
+ */
+export const mergeCollections = (target: Collection, incoming: Collection): Collection => {
+  const colors = [...target.colors];
+  const byHex = new Map(colors.map((c, i) => [c.hex, i]));
+  const usedIds = new Set(colors.map(c => c.id));
+  const idMap = new Map<string, string>();
+
+  for (const color of incoming.colors) {
+    const index = byHex.get(color.hex);
+    if (index !== undefined) {
+      const current = colors[index];
+      const tags = normalizeTags([...(current.tags ?? []), ...(color.tags ?? [])]);
+      colors[index] = {
+        ...current,
+        ...(!current.name && color.name && { name: color.name }),
+        ...(!current.notes && color.notes && { notes: color.notes }),
+        ...(!current.spot && color.spot && { spot: color.spot }),
+        ...(!current.lockedCmyk && color.lockedCmyk && { lockedCmyk: color.lockedCmyk }),
+        ...(tags && { tags }),
+      };
+      idMap.set(color.id, current.id);
+      continue;
+    }
+    const id = usedIds.has(color.id) ? newId() : color.id;
+    const record: ColorRecord = { ...color, id };
+    usedIds.add(id);
+    byHex.set(record.hex, colors.length);
+    colors.push(record);
+    idMap.set(color.id, id);
+  }
+
+  const remapped = incoming.selectedIds.map(id => idMap.get(id)).filter((id): id is string => !!id);
+  const selectedIds = Array.from(new Set([...target.selectedIds, ...remapped])).slice(0, MAX_SELECTED);
+  return { ...target, colors, selectedIds };
+};
+
+/** Applies the chosen actions in order; returns the new list and the first collection the import touched. */
+export const applyImport = (existing: Collection[], plan: ImportPlanItem[]): { collections: Collection[]; firstId?: string } => {
+  let collections = [...existing];
+  let firstId: string | undefined;
+
+  for (const { incoming, conflict, action } of plan) {
+    const targetIndex = conflict ? collections.findIndex(c => c.id === conflict.id) : -1;
+    let touchedId: string | undefined;
+
+    if ((action === 'merge' || action === 'replace') && targetIndex >= 0) {
+      const target = collections[targetIndex];
+      // Replacing keeps the existing ID so references to it stay valid
+      const next = action === 'merge' ? mergeCollections(target, incoming) : { ...incoming, id: target.id };
+      collections = collections.map((c, i) => (i === targetIndex ? next : c));
+      touchedId = target.id;
+    } else if (action !== 'skip') {
+      const idTaken = collections.some(c => c.id === incoming.id);
+      const added: Collection = {
+        ...incoming,
+        id: idTaken ? newId() : incoming.id,
+        name: action === 'rename' ? uniqueName(incoming.name, collections) : incoming.name,
+      };
+      collections = [...collections, added];
+      touchedId = added.id;
+    }
+
+    firstId ??= touchedId;
+  }
+
+  return { collections, firstId };
+};
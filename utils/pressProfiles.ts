@@ -0,0 +1,70 @@
+import { InkSettings, PressProfile } from '../types';
+
+export const PRESS_PROFILES: PressProfile[] = [
+  {
+    id: 'coated',
+    name: 'Coated offset',
+    paper: 'coated',
+    paperType: 'Coated Stock',
+    dotGain: 14,
+    tacLimit: 330,
+    paperWhite: { l: 95, a: 0, b: -2 },
+  },
+  {
+    id: 'uncoated',
+    name: 'Uncoated offset',
+    paper: 'uncoated',
+    paperType: 'Uncoated Stock',
+    dotGain: 20,
+    tacLimit: 300,
+    paperWhite: { l: 95, a: 1, b: -4 },
+  },
+  {
+    id: 'newsprint',
+    name: 'Newsprint',
+    paper: 'newsprint',
+    paperType: 'Newsprint',
+    dotGain: 26,
+    tacLimit: 240,
+    paperWhite: { l: 82, a: 0, b: 3 },
+  },
+  {
+    id: 'digital',
+    name: 'Digital toner',
+    paper: 'digital',
+    paperType: 'Digital Press Stock',
+    dotGain: 8,
+    tacLimit: 280,
+    paperWhite: { l: 94, a: 1, b: -3 },
+  },
+];
+
+export const DEFAULT_PRESS_PROFILE = PRESS_PROFILES[0];
+
+// The heuristic and standard separations assume coated-offset tone gain
+const REFERENCE_DOT_GAIN = DEFAULT_PRESS_PROFILE.dotGain;
+
+export const getPressProfile = (id?: string): PressProfile =>
+  PRESS_PROFILES.find(p => p.id === id) || DEFAULT_PRESS_PROFILE;
+
+/** The shop-wide ink limit applies unless the press profile is stricter. */
+export const resolveInkSettings = (ink: InkSettings, press: PressProfile): InkSettings => ({
+  ...ink,
+  tacLimit: Math.min(ink.tacLimit, press.tacLimit),
+});
+
+/**
+ * Adjusts a tone value for the press's dot gain relative to coated offset,
+ * using a parabolic gain curve that peaks at the 50% patch.
+ */
+export const compensateDotGain = (value: number, press: PressProfile): number => {
+  const delta = press.dotGain - REFERENCE_DOT_GAIN;
+  if (delta === 0 || value <= 0 || value >= 100) return value;
+  const t = value / 100;
+  return Math.max(0, Math.min(100, Math.round(value - delta * 4 * t * (1 - t))));
+};
+
+export const describePressProfile = (press: PressProfile): string => {
+  const { l, a, b } = press.paperWhite;
+  return `${press.name} on ${press.paperType.toLowerCase()} (dot gain ${press.dotGain}% at 50%, ink limit ${press.tacLimit}%, paper white L*${l} a*${a} b*${b})`;
+};
@@ -0,0 +1,214 @@
+import { jsPDF } from 'jspdf';
+import { CmykValues } from '../types';
+
+// Press proof PDF: swatches are filled with the exact CMYK builds (DeviceCMYK,
+// no conversion) so the printer can put a densitometer on what we hand them.
+// All dimensions are in millimetres.
+
+export type PdfSheetMode = 'screen' | 'proof';
+export type PageSizeId = 'a4' | 'letter' | 'a3' | 'custom';
+export type PageOrientation = 'portrait' | 'landscape';
+
+export interface PdfPageOptions {
+  size: PageSizeId;
+  /** Portrait width and height; only read for custom sizes. */
+  width: number;
+  height: number;
+  orientation: PageOrientation;
+}
+
+export const PAGE_SIZES: { id: Exclude<PageSizeId, 'custom'>; name: string; width: number; height: number }[] = [
+  { id: 'a4', name: 'A4', width: 210, height: 297 },
+  { id: 'letter', name: 'Letter', width: 215.9, height: 279.4 },
+  { id: 'a3', name: 'A3', width: 297, height: 420 },
+];
+
+export const DEFAULT_PAGE_OPTIONS: PdfPageOptions = { size: 'a4', width: 210, height: 297, orientation: 'landscape' };
+
+// The trim box has to fit at least one proof cell
+export const MIN_PAGE_SIDE = 180;
+export const MAX_PAGE_SIDE = 1200;
+
+/** Page width and height in the chosen orientation. */
+export const pageDimensions = (options: PdfPageOptions): { width: number; height: number } => {
+  const preset = PAGE_SIZES.find(p => p.id === options.size);
+  const short = Math.min(preset?.width ?? options.width, preset?.height ?? options.height);
+  const long = Math.max(preset?.width ?? options.width, preset?.height ?? options.height);
+  return options.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+};
+
+export const createPdf = (options: PdfPageOptions): jsPDF => {
+  const { width, height } = pageDimensions(options);
+  return new jsPDF({ unit: 'mm', format: [width, height], orientation: options.orientation });
+};
+
+export interface ProofColor {
+  hex: string;
+  name?: string;
+  recipe: CmykValues;
+  /** 'Smart' or 'Locked'. */
+  label: string;
+  totalInk: number;
+  spot?: string;
+}
+
+export interface ProofSheetInfo {
+  title: string;
+  pressName: string;
+}
+
+export const TINT_STEPS = [100, 75, 50, 25, 10];
+
+// Room outside the trim box for crop and registration marks
+export const MARK_MARGIN = 15;
+const CROP_OFFSET = 3;
+const CROP_LENGTH = 5;
+const HEADER_H = 14;
+const COLOR_BAR_H = 11;
+const CELL_W = 150;
+const CELL_H = 27;
+const CELL_GAP = 8;
+const SWATCH_W = 26;
+const SWATCH_H = 20;
+const TEXT_W = 48;
+const TINT_SIZE = 12;
+const TINT_GAP = 1.5;
+
+const COLOR_BAR: { label: string; cmyk: CmykValues }[] = [
+  { label: 'C', cmyk: { c: 100, m: 0, y: 0, k: 0 } },
+  { label: 'M', cmyk: { c: 0, m: 100, y: 0, k: 0 } },
+  { label: 'Y', cmyk: { c: 0, m: 0, y: 100, k: 0 } },
+  { label: 'K', cmyk: { c: 0, m: 0, y: 0, k: 100 } },
+  { label: 'C50', cmyk: { c: 50, m: 0, y: 0, k: 0 } },
+  { label: 'M50', cmyk: { c: 0, m: 50, y: 0, k: 0 } },
+  { label: 'Y50', cmyk: { c: 0, m: 0, y: 50, k: 0 } },
+  { label: 'K50', cmyk: { c: 0, m: 0, y: 0, k: 50 } },
+  { label: 'CM', cmyk: { c: 100, m: 100, y: 0, k: 0 } },
+  { label: 'CY', cmyk: { c: 100, m: 0, y: 100, k: 0 } },
+  { label: 'MY', cmyk: { c: 0, m: 100, y: 100, k: 0 } },
+  { label: 'CMY', cmyk: { c: 100, m: 100, y: 100, k: 0 } },
+  { label: 'Gray', cmyk: { c: 50, m: 40, y: 40, k: 0 } },
+  { label: 'K Gray', cmyk: { c: 0, m: 0, y: 0, k: 50 } },
+];
+
+export const BLACK: CmykValues = { c: 0, m: 0, y: 0, k: 100 };
+const REGISTRATION: CmykValues = { c: 100, m: 100, y: 100, k: 100 };
+
+export const formatCmyk = ({ c, m, y, k }: CmykValues) => `C${c} M${m} Y${y} K${k}`;
+
+export const fillCmyk = (pdf: jsPDF, { c, m, y, k }: CmykValues) => pdf.setFillColor(c / 100, m / 100, y / 100, k / 100);
+const drawCmyk = (pdf: jsPDF, { c, m, y, k }: CmykValues) => pdf.setDrawColor(c / 100, m / 100, y / 100, k / 100);
+export const textCmyk = (pdf: jsPDF, { c, m, y, k }: CmykValues) => pdf.setTextColor(c / 100, m / 100, y / 100, k / 100);
+
+const tint = ({ c, m, y, k }: CmykValues, percent: number): CmykValues =>
+  ({ c: (c * percent) / 100, m: (m * percent) / 100, y: (y * percent) / 100, k: (k * percent) / 100 });
+
+/** Corner crop marks around the trim box and registration targets centred in each margin. */
+export const drawPrinterMarks = (pdf: jsPDF, pageW: number, pageH: number, margin = MARK_MARGIN) => {
+  drawCmyk(pdf, REGISTRATION);
+  pdf.setLineWidth(0.1);
+  const left = margin;
+  const right = pageW - margin;
+  const top = margin;
+  const bottom = pageH - margin;
+  for (const x of [left, right]) {
+    const dir = x === left ? -1 : 1;
+    for (const y of [top, bottom]) {
+      const dirY = y === top ? -1 : 1;
+      pdf.line(x + dir * CROP_OFFSET, y, x + dir * (CROP_OFFSET + CROP_LENGTH), y);
+      pdf.line(x, y + dirY * CROP_OFFSET, x, y + dirY * (CROP_OFFSET + CROP_LENGTH));
+    }
+  }
+  const targets = [
+    [pageW / 2, margin / 2],
+    [pageW / 2, pageH - margin / 2],
+    [margin / 2, pageH / 2],
+    [pageW - margin / 2, pageH / 2],
+  ];
+  for (const [x, y] of targets) {
+    pdf.circle(x, y, 2.5, 'S');
+    pdf.line(x - 4, y, x + 4, y);
+    pdf.line(x, y - 4, x, y + 4);
+  }
+};
+
+/** Solids, 50% tints, overprints and a gray balance pair along the bottom of the trim box. */
+export const drawColorBar = (pdf: jsPDF, x: number, y: number, maxWidth: number) => {
+  const patchW = Math.min(10, maxWidth / COLOR_BAR.length);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(5);
+  textCmyk(pdf, BLACK);
+  COLOR_BAR.forEach((patch, i) => {
+    fillCmyk(pdf, patch.cmyk);
+    pdf.rect(x + i * patchW, y, patchW, 6, 'F');
+    pdf.text(patch.label, x + i * patchW + patchW / 2, y + 9, { align: 'center' });
+  });
+};
+
+const drawProofCell = (pdf: jsPDF, color: ProofColor, x: number, y: number) => {
+  fillCmyk(pdf, color.recipe);
+  pdf.rect(x, y, SWATCH_W, SWATCH_H, 'F');
+
+  textCmyk(pdf, BLACK);
+  const tx = x + SWATCH_W + 4;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(9);
+  const title = color.name ? `${color.name} ${color.hex}` : color.hex;
+  pdf.text(pdf.splitTextToSize(title, TEXT_W)[0], tx, y + 4);
+  pdf.setFontSize(8);
+  pdf.text(`${color.label}: ${formatCmyk(color.recipe)}`, tx, y + 9);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.text(`TAC ${color.totalInk}%`, tx, y + 13);
+  if (color.spot) pdf.text(pdf.splitTextToSize(`Spot: ${color.spot}`, TEXT_W)[0], tx, y + 17);
+
+  const rampX = tx + TEXT_W + 2;
+  pdf.setFontSize(6);
+  TINT_STEPS.forEach((step, i) => {
+    const px = rampX + i * (TINT_SIZE + TINT_GAP);
+    fillCmyk(pdf, tint(color.recipe, step));
+    pdf.rect(px, y, TINT_SIZE, TINT_SIZE, 'F');
+    pdf.text(`${step}%`, px + TINT_SIZE / 2, y + TINT_SIZE + 3, { align: 'center' });
+  });
+};
+
+/**
+ * One cell per color with its swatch, build and a 100–10% tint ramp, as many
+ * per page as fit, each page carrying crop and registration marks and a color bar.
+ */
+export const buildProofPdf = (colors: ProofColor[], info: ProofSheetInfo, options: PdfPageOptions): jsPDF => {
+  const pdf = createPdf(options);
+  const { width: pageW, height: pageH } = pageDimensions(options);
+  const left = MARK_MARGIN;
+  const top = MARK_MARGIN;
+  const trimW = pageW - MARK_MARGIN * 2;
+  const trimH = pageH - MARK_MARGIN * 2;
+  const cols = Math.max(1, Math.floor((trimW + CELL_GAP) / (CELL_W + CELL_GAP)));
+  const rows = Math.max(1, Math.floor((trimH - HEADER_H - COLOR_BAR_H) / CELL_H));
+  const perPage = cols * rows;
+  const pageCount = Math.max(1, Math.ceil(colors.length / perPage));
+  const date = new Date().toLocaleDateString();
+
+  for (let page = 0; page < pageCount; page++) {
+    if (page > 0) pdf.addPage([pageW, pageH], options.orientation);
+    drawPrinterMarks(pdf, pageW, pageH);
+
+    textCmyk(pdf, BLACK);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.text(`${info.title} - Press Proof`, left, top + 5);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.text(`${info.pressName} · CMYK builds as listed, no color conversion · ${date}`, left, top + 10);
+    pdf.text(`Page ${page + 1} of ${pageCount}`, left + trimW, top + 5, { align: 'right' });
+
+    colors.slice(page * perPage, (page + 1) * perPage).forEach((color, i) => {
+      const col = i % cols;
+      const row = Math.floor(i / cols);
+      drawProofCell(pdf, color, left + col * (CELL_W + CELL_GAP), top + HEADER_H + row * CELL_H);
+    });
+
+    drawColorBar(pdf, left, top + trimH - COLOR_BAR_H + 1, trimW);
+  }
+  return pdf;
+};
@@ -0,0 +1,120 @@
+import { jsPDF } from 'jspdf';
+import { CmykValues } from '../types';
+import {
+  BLACK, createPdf, drawColorBar, drawPrinterMarks, fillCmyk, formatCmyk, MARK_MARGIN, pageDimensions, PdfPageOptions, textCmyk,
+} from './proofSheet';
+
+// Ring-around chart: the base recipe in the middle of a 5x5 star, C across the
+// middle row, M down the middle column, Y and K along the diagonals, two steps
+// each way. Print it, pick the patch that matches, lock that build.
+
+type Channel = keyof CmykValues;
+
+export interface RingAroundPatch {
+  /** Printed next to the patch, unique within a chart: "BASE", "C+5", "K-10". */
+  code: string;
+  cmyk: CmykValues;
+  row: number;
+  col: number;
+}
+
+export const RING_STEP_SETS: { id: string; name: string; steps: [number, number] }[] = [
+  { id: 'fine', name: '±2 / ±4', steps: [2, 4] },
+  { id: 'standard', name: '±5 / ±10', steps: [5, 10] },
+  { id: 'coarse', name: '±10 / ±20', steps: [10, 20] },
+];
+
+export const RING_GRID_SIZE = 5;
+
+// Grid cell for each channel at offset -2..2 from the centre
+const AXES: { channel: Channel; cell: (offset: number) => [number, number] }[] = [
+  { channel: 'c', cell: offset => [2, 2 + offset] },
+  { channel: 'm', cell: offset => [2 + offset, 2] },
+  { channel: 'y', cell: offset => [2 + offset, 2 + offset] },
+  { channel: 'k', cell: offset => [2 + offset, 2 - offset] },
+];
+
+const clampInk = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * The base patch plus each channel moved by ±steps. Variations that clamp to a
+ * build already on the chart (e.g. K-5 when there is no black) are left out.
+ */
+export const buildRingAround = (base: CmykValues, steps: [number, number]): RingAroundPatch[] => {
+  const patches: RingAroundPatch[] = [{ code: 'BASE', cmyk: base, row: 2, col: 2 }];
+  for (const { channel, cell } of AXES) {
+    const seen = new Set([base[channel]]);
+    for (const offset of [-1, -2, 1, 2]) {
+      const step = steps[Math.abs(offset) - 1] * Math.sign(offset);
+      const value = clampInk(base[channel] + step);
+      if (seen.has(value)) continue;
+      seen.add(value);
+      const [row, col] = cell(offset);
+      patches.push({
+        code: `${channel.toUpperCase()}${step > 0 ? '+' : '-'}${Math.abs(step)}`,
+        cmyk: { ...base, [channel]: value },
+        row,
+        col,
+      });
+    }
+  }
+  return patches;
+};
+
+export interface RingAroundInfo {
+  title: string;
+  hex: string;
+  pressName: string;
+}
+
+const HEADER_H = 18;
+const COLOR_BAR_H = 11;
+const LABEL_H = 8;
+const CELL_GAP = 2;
+const MAX_PATCH = 40;
+
+export const buildRingAroundPdf = (patches: RingAroundPatch[], info: RingAroundInfo, options: PdfPageOptions): jsPDF => {
+  const pdf = createPdf(options);
+  const { width: pageW, height: pageH } = pageDimensions(options);
+  const left = MARK_MARGIN;
+  const top = MARK_MARGIN;
+  const trimW = pageW - MARK_MARGIN * 2;
+  const trimH = pageH - MARK_MARGIN * 2;
+  drawPrinterMarks(pdf, pageW, pageH);
+
+  const base = patches.find(p => p.code === 'BASE')?.cmyk;
+  textCmyk(pdf, BLACK);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text(`${info.title} - Ring-Around`, left, top + 5);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.text(`${info.hex} · base ${base ? formatCmyk(base) : ''} · ${info.pressName} · ${new Date().toLocaleDateString()}`, left, top + 10);
+  pdf.text('Find the patch closest to the target and enter its code in the app. C runs across, M down, Y and K on the diagonals.', left, top + 14);
+
+  const cell = Math.min(
+    (trimW + CELL_GAP) / RING_GRID_SIZE,
+    (trimH - HEADER_H - COLOR_BAR_H + CELL_GAP) / RING_GRID_SIZE,
+    MAX_PATCH + LABEL_H + CELL_GAP
+  );
+  const patch = cell - LABEL_H - CELL_GAP;
+  const gridX = left + (trimW - cell * RING_GRID_SIZE + CELL_GAP) / 2;
+  const gridY = top + HEADER_H;
+
+  for (const p of patches) {
+    const x = gridX + p.col * cell + (cell - CELL_GAP - patch) / 2;
+    const y = gridY + p.row * cell;
+    fillCmyk(pdf, p.cmyk);
+    pdf.rect(x, y, patch, patch, 'F');
+    textCmyk(pdf, BLACK);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.text(p.code, x + patch / 2, y + patch + 3.5, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(5.5);
+    pdf.text(formatCmyk(p.cmyk), x + patch / 2, y + patch + 6.5, { align: 'center' });
+  }
+
+  drawColorBar(pdf, left, top + trimH - COLOR_BAR_H + 1, trimW);
+  return pdf;
+};
@@ -0,0 +1,103 @@
+import { Collection } from '../types';
+
+// A collection packed into the URL hash so it can be shared without a server.
+// Colors are [hex, name?, "c,m,y,k"?] tuples and the selection is a list of
+// color indices, which keeps links short enough for chat apps.
+
+const HASH_PREFIX = 'palette=';
+const FORMAT_VERSION = 1;
+
+type PackedColor = [string, string?, string?];
+
+interface PackedCollection {
+  v: number;
+  n: string;
+  c: PackedColor[];
+  s: number[];
+  p?: string;
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+export const encodeCollection = (collection: Collection): string => {
+  const packed: PackedCollection = {
+    v: FORMAT_VERSION,
+    n: collection.name,
+    c: collection.colors.map(color => {
+      const tuple: PackedColor = [color.hex.replace('#', '')];
+      const cmyk = color.lockedCmyk && [color.lockedCmyk.c, color.lockedCmyk.m, color.lockedCmyk.y, color.lockedCmyk.k].join(',');
+      if (color.name || cmyk) tuple.push(color.name ?? '');
+      if (cmyk) tuple.push(cmyk);
+      return tuple;
+    }),
+    s: collection.selectedIds.map(id => collection.colors.findIndex(c => c.id === id)).filter(i => i >= 0),
+    ...(collection.pressProfileId && { p: collection.pressProfileId }),
+  };
+  return toBase64Url(JSON.stringify(packed));
+};
+
+export const buildShareUrl = (collection: Collection): string =>
+  `${location.origin}${location.pathname}#${HASH_PREFIX}${encodeCollection(collection)}`;
+
+/**
+ * Unpacks a shared collection into the raw import shape, ready for
+ * validateCollections. Throws when the payload is not a share link.
+ */
+export const decodeCollection = (encoded: string): unknown[] => {
+  const packed = JSON.parse(fromBase64Url(encoded)) as PackedCollection;
+  if (packed?.v !== FORMAT_VERSION || !Array.isArray(packed.c)) throw new Error('Unsupported share link');
+  const idPrefix = Math.random().toString(36).substring(7);
+  const colors = packed.c.map((tuple, i) => {
+    const [hex, name, cmyk] = Array.isArray(tuple) ? tuple : [tuple];
+    const [c, m, y, k] = typeof cmyk === 'string' ? cmyk.split(',').map(Number) : [];
+    return {
+      id: `${idPrefix}-${i}`,
+      hex: `#${hex}`,
+      name,
+      ...(cmyk && { lockedCmyk: { c, m, y, k } }),
+    };
+  });
+  return [{
+    id: idPrefix,
+    name: packed.n,
+    colors,
+    selectedIds: Array.isArray(packed.s) ? packed.s.map(i => `${idPrefix}-${i}`) : [],
+    pressProfileId: packed.p,
+  }];
+};
+
+/** Finds a share payload in a location hash or in shared text that contains a link. */
+export const findSharePayload = (text: string): string | null => {
+  const match = text.match(new RegExp(`#${HASH_PREFIX}([A-Za-z0-9_-]+)`));
+  return match ? match[1] : null;
+};
+
+// Must match SHARE_CACHE_NAME in sw.js, which stores share_target posts here
+const SHARE_CACHE_NAME = 'hexviewer-share';
+
+export interface SharedContent {
+  text?: string;
+  file?: File;
+}
+
+/** Takes whatever another app shared into HexViewer, clearing it so it is only imported once. */
+export const takeSharedContent = async (): Promise<SharedContent> => {
+  if (!('caches' in window)) return {};
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  const [text, file] = await Promise.all([cache.match('shared/text'), cache.match('shared/file')]);
+  await Promise.all([cache.delete('shared/text'), cache.delete('shared/file')]);
+  const content: SharedContent = {};
+  if (text) content.text = await text.text();
+  if (file) content.file = new File([await file.blob()], decodeURIComponent(file.headers.get('X-File-Name') ?? 'shared.json'));
+  return content;
+};
@@ -0,0 +1,115 @@
+import { CmykValues, LabValues, PaperClass, PressProfile, XyzValues } from '../types';
+import { getActiveCmykTransform } from './colorManagement';
+import { D50_WHITE, deltaE2000, labToRgb, labToXyz, rgbToLab, xyzToLab } from './colorScience';
+import { hexToRgb, normalizeHex, rgbToHex } from './colorUtils';
+
+export type GamutSeverity = 'match' | 'noticeable' | 'out-of-gamut';
+
+export interface SoftProof {
+  screenHex: string;
+  printHex: string;
+  printLab: LabValues;
+  deltaE: number;
+  severity: GamutSeverity;
+}
+
+// Solid and overprint colorimetry for coated offset (FOGRA39-like, D50)
+const COATED_PRIMARIES: Record<string, LabValues> = {
+  c: { l: 55, a: -37, b: -50 },
+  m: { l: 48, a: 74, b: -3 },
+  y: { l: 89, a: -5, b: 93 },
+  cm: { l: 24, a: 22, b: -46 },
+  cy: { l: 50, a: -65, b: 27 },
+  my: { l: 47, a: 68, b: 48 },
+  cmy: { l: 23, a: 0, b: 0 },
+  k: { l: 16, a: 0, b: 0 },
+};
+const COATED_BLACK_L = COATED_PRIMARIES.k.l;
+const COATED_WHITE_L = 95;
+
+// How far each stock pulls solids toward gray, and how deep its black gets
+const PAPER_GAMUT: Record<PaperClass, { chroma: number; blackL: number }> = {
+  coated: { chroma: 1, blackL: 16 },
+  uncoated: { chroma: 0.82, blackL: 31 },
+  newsprint: { chroma: 0.7, blackL: 36 },
+  digital: { chroma: 0.95, blackL: 18 },
+};
+
+// Yule–Nielsen n-factor accounting for optical dot gain
+const YULE_NIELSEN_N = 2;
+
+// Delta E 2000 thresholds for the gamut warning
+const NOTICEABLE_DELTA_E = 2;
+const OUT_OF_GAMUT_DELTA_E = 5;
+
+const adaptPrimary = (lab: LabValues, press: PressProfile): XyzValues => {
+  const { chroma, blackL } = PAPER_GAMUT[press.paper];
+  const white = press.paperWhite.l;
+  const l = blackL + (lab.l - COATED_BLACK_L) * (white - blackL) / (COATED_WHITE_L - COATED_BLACK_L);
+  return labToXyz({ l, a: lab.a * chroma, b: lab.b * chroma });
+};
+
+const effectiveCoverage = (value: number, press: PressProfile) => {
+  const t = Math.max(0, Math.min(100, value)) / 100;
+  return Math.min(1, t + (press.dotGain / 100) * 4 * t * (1 - t));
+};
+
+/**
+ * Yule–Nielsen modified Neugebauer estimate of the printed color, with
+ * Demichel weights for C/M/Y and black overprinted on top. Returned Lab is
+ * media-relative, so paper white maps to L* 100 like a relative soft proof.
+ */
+const modelPrintedLab = (cmyk: CmykValues, press: PressProfile): LabValues => {
+  const paper = labToXyz(press.paperWhite);
+  const primaries: Record<string, XyzValues> = { w: paper };
+  for (const [key, lab] of Object.entries(COATED_PRIMARIES)) primaries[key] = adaptPrimary(lab, press);
+
+  const [c, m, y, k] = [cmyk.c, cmyk.m, cmyk.y, cmyk.k].map(v => effectiveCoverage(v, press));
+  const weights: Record<string, number> = {
+    w: (1 - c) * (1 - m) * (1 - y),
+    c: c * (1 - m) * (1 - y),
+    m: (1 - c) * m * (1 - y),
+    y: (1 - c) * (1 - m) * y,
+    cm: c * m * (1 - y),
+    cy: c * (1 - m) * y,
+    my: (1 - c) * m * y,
+    cmy: c * m * y,
+  };
+
+  const n = YULE_NIELSEN_N;
+  const channel = (axis: keyof XyzValues) => {
+    const cmyRoot = Object.entries(weights).reduce((sum, [key, w]) => sum + w * Math.pow(primaries[key][axis], 1 / n), 0);
+    const cmy = Math.pow(cmyRoot, n);
+    const overK = cmy * (primaries.k[axis] / paper[axis]);
+    const root = (1 - k) * Math.pow(cmy, 1 / n) + k * Math.pow(overK, 1 / n);
+    return Math.pow(root, n) * D50_WHITE[axis] / paper[axis];
+  };
+
+  return xyzToLab({ x: channel('x'), y: channel('y'), z: channel('z') });
+};
+
+/** Estimated printed Lab: the output ICC profile when one is active, otherwise the press model. */
+export const estimatePrintedLab = (cmyk: CmykValues, press: PressProfile): LabValues => {
+  const transform = getActiveCmykTransform();
+  return transform ? transform.toLab(cmyk) : modelPrintedLab(cmyk, press);
+};
+
+export const getGamutSeverity = (deltaE: number): GamutSeverity => {
+  if (deltaE > OUT_OF_GAMUT_DELTA_E) return 'out-of-gamut';
+  if (deltaE > NOTICEABLE_DELTA_E) return 'noticeable';
+  return 'match';
+};
+
+export const getSoftProof = (hex: string, cmyk: CmykValues, press: PressProfile): SoftProof => {
+  const screenRgb = hexToRgb(normalizeHex(hex));
+  const screenLab = rgbToLab(screenRgb);
+  const printLab = estimatePrintedLab(cmyk, press);
+  const deltaE = deltaE2000(screenLab, printLab);
+  return {
+    screenHex: rgbToHex(screenRgb),
+    printHex: rgbToHex(labToRgb(printLab)),
+    printLab,
+    deltaE,
+    severity: getGamutSeverity(deltaE),
+  };
+};
@@ -0,0 +1,124 @@
+import { CmykValues, LabValues, SpotAssignment, SpotColor, SpotLibrary } from '../types';
+import { deltaE2000, labToRgb, rgbToLab } from './colorScience';
+import { hexToRgb, isRecord, isValidHex, normalizeHex, rgbToHex } from './colorUtils';
+
+export interface BundledSpotLibrary {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// Open datasets served from /spot-libraries. Licensed libraries (e.g. Pantone
+// solid coated/uncoated) are loaded by the user as JSON in the same format.
+export const BUNDLED_SPOT_LIBRARIES: BundledSpotLibrary[] = [
+  { id: 'ral-classic', name: 'RAL Classic', url: './spot-libraries/ral-classic.json' },
+];
+
+export interface SpotMatch {
+  libraryId: string;
+  libraryName: string;
+  color: SpotColor;
+  deltaE: number;
+}
+
+const parseLab = (value: unknown): LabValues | null => {
+  if (Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number')) {
+    return { l: value[0], a: value[1], b: value[2] };
+  }
+  if (isRecord(value)) {
+    const { l, a, b } = value;
+    if ([l, a, b].every(v => typeof v === 'number')) return { l, a, b } as LabValues;
+  }
+  return null;
+};
+
+const parseCmyk = (value: unknown): CmykValues | undefined => {
+  if (Array.isArray(value) && value.length === 4 && value.every(v => typeof v === 'number')) {
+    return { c: value[0], m: value[1], y: value[2], k: value[3] };
+  }
+  if (isRecord(value)) {
+    const { c, m, y, k } = value;
+    if ([c, m, y, k].every(v => typeof v === 'number')) return { c, m, y, k } as CmykValues;
+  }
+  return undefined;
+};
+
+/**
+ * Validates a spot library dataset. Each entry needs a `code` and either a
+ * `hex` or a measured `lab` (object or [L, a, b]); `lab` wins for matching
+ * when both are present. `name` and `cmyk` are optional.
+ */
+export const parseSpotLibrary = (data: unknown, fallbackId: string): SpotLibrary => {
+  if (!isRecord(data) || !Array.isArray(data.colors)) {
+    throw new Error('Spot library must be an object with a "colors" array');
+  }
+  const colors: SpotColor[] = [];
+  for (const entry of data.colors) {
+    if (!isRecord(entry)) continue;
+    const { code, name, hex, lab, cmyk } = entry;
+    if (typeof code !== 'string' || !code.trim()) continue;
+    const parsedLab = parseLab(lab);
+    const validHex = typeof hex === 'string' && isValidHex(hex) ? normalizeHex(hex) : null;
+    if (!parsedLab && !validHex) continue;
+    colors.push({
+      code: code.trim(),
+      name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+      hex: validHex ?? rgbToHex(labToRgb(parsedLab!)),
+      lab: parsedLab ?? rgbToLab(hexToRgb(validHex!)),
+      cmyk: parseCmyk(cmyk),
+    });
+  }
+  if (colors.length === 0) throw new Error('Spot library contains no usable colors');
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : fallbackId,
+    name: typeof data.name === 'string' && data.name ? data.name : fallbackId,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    colors,
+  };
+};
+
+export const fetchBundledSpotLibrary = async (bundled: BundledSpotLibrary): Promise<SpotLibrary> => {
+  const response = await fetch(bundled.url);
+  if (!response.ok) throw new Error(`${bundled.name} library not found at ${bundled.url}`);
+  return parseSpotLibrary(await response.json(), bundled.id);
+};
+
+/** Validates stored user-loaded libraries; ones that no longer validate are skipped. */
+export const parseCustomSpotLibraries = (stored: unknown[]): SpotLibrary[] =>
+  stored.flatMap((lib, i) => {
+    try {
+      return [{ ...parseSpotLibrary(lib, `custom-${i}`), custom: true }];
+    } catch (e) {
+      console.warn('Ignoring stored spot library:', e);
+      return [];
+    }
+  });
+
+/** Ranks spot colors across libraries by Delta E 2000 from the given hex. */
+export const findNearestSpots = (hex: string, libraries: SpotLibrary[], count = 5): SpotMatch[] => {
+  const target = rgbToLab(hexToRgb(normalizeHex(hex)));
+  const matches: SpotMatch[] = [];
+  for (const library of libraries) {
+    for (const color of library.colors) {
+      matches.push({
+        libraryId: library.id,
+        libraryName: library.name,
+        color,
+        deltaE: deltaE2000(target, color.lab),
+      });
+    }
+  }
+  return matches.sort((a, b) => a.deltaE - b.deltaE).slice(0, count);
+};
+
+export const toSpotAssignment = (match: SpotMatch): SpotAssignment => ({
+  libraryId: match.libraryId,
+  libraryName: match.libraryName,
+  code: match.color.code,
+  name: match.color.name,
+  hex: match.color.hex,
+  ...(match.color.cmyk && { cmyk: match.color.cmyk }),
+});
+
+export const formatSpotName = (spot: SpotAssignment) =>
+  spot.name ? `${spot.code} ${spot.name}` : spot.code;
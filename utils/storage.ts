@@ -0,0 +1,291 @@
+import { Collection, SpotLibrary } from '../types';
+import { migrateCollections, validateCollections } from './collections';
+import type { CollectionChanges } from './tabSync';
+
+// IndexedDB persistence. DB_VERSION covers the object-store layout and is
+// upgraded by the browser; SCHEMA_VERSION covers the shape of the stored data
+// and is brought forward by DATA_MIGRATIONS, recorded in the meta store.
+
+const DB_NAME = 'hexviewer';
+const DB_VERSION = 1;
+export const SCHEMA_VERSION = 1;
+
+const STORE_COLLECTIONS = 'collections';
+const STORE_AI_CACHE = 'aiCache';
+const STORE_SPOT_LIBRARIES = 'spotLibraries';
+const STORE_META = 'meta';
+
+const META_SCHEMA_VERSION = 'schemaVersion';
+const META_HISTORY = 'history';
+
+// Pre-IndexedDB localStorage keys, read once by the v1 migration
+const LEGACY_COLLECTIONS_KEY = 'hexviewer_collections_v2';
+const LEGACY_AI_CACHE_KEY = 'hexviewer_ai_cmyk_cache';
+
+interface CollectionRow {
+  id: string;
+  position: number;
+  collection: Collection;
+}
+
+interface AiCacheRow {
+  key: string;
+  value: unknown;
+  updatedAt: number;
+}
+
+interface SpotLibraryRow {
+  id: string;
+  library: SpotLibrary;
+  addedAt: number;
+}
+
+export interface StoredHistory {
+  past: Collection[][];
+  future: Collection[][];
+}
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available in this browser'));
+    return;
+  }
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = (event) => {
+    const db = req.result;
+    if (event.oldVersion < 1) {
+      db.createObjectStore(STORE_COLLECTIONS, { keyPath: 'id' });
+      db.createObjectStore(STORE_AI_CACHE, { keyPath: 'key' }).createIndex('updatedAt', 'updatedAt');
+      db.createObjectStore(STORE_META);
+      db.createObjectStore(STORE_SPOT_LIBRARIES, { keyPath: 'id' });
+    }
+  };
+  req.onsuccess = () => {
+    const db = req.result;
+    // Let a newer tab upgrade the database instead of blocking it
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  req.onerror = () => reject(req.error);
+  req.onblocked = () => reject(new Error('Storage is being upgraded in another tab; close it and reload'));
+});
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.warn(`Ignoring unreadable ${key} in localStorage:`, e);
+    return null;
+  }
+};
+
+const hasLegacyKey = (key: string) => {
+  try {
+    return localStorage.getItem(key) !== null;
+  } catch {
+    return false;
+  }
+};
+
+const removeLegacyKey = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch { /* nothing to free */ }
+};
+
+// Set when a migration had to leave data behind; shown until the page is reloaded
+let migrationNotice: string | null = null;
+
+/** Why stored data could not be fully migrated this session, if it could not. */
+export const getMigrationNotice = () => migrationNotice;
+
+/**
+ * v1: moves the localStorage collections into IndexedDB. The localStorage key
+ * is only removed when every collection and color came across; otherwise it
+ * stays as the user's copy. The localStorage AI cache is dropped, not imported:
+ * it keyed answers to the first prompt by hex alone, so they cannot be told
+ * apart by provider, model or press profile.
+ */
+const importLocalStorage = async (db: IDBDatabase) => {
+  const legacy = readLegacyJson(LEGACY_COLLECTIONS_KEY);
+  const { collections } = validateCollections(legacy);
+
+  const tx = db.transaction(STORE_COLLECTIONS, 'readwrite');
+  collections.forEach((collection, position) => {
+    tx.objectStore(STORE_COLLECTIONS).put({ id: collection.id, position, collection } satisfies CollectionRow);
+  });
+  await completion(tx);
+
+  const colorCount = (list: unknown[]) => list.reduce<number>((sum, c) => {
+    const colors = (c as { colors?: unknown } | null)?.colors;
+    return sum + (Array.isArray(colors) ? colors.length : 0);
+  }, 0);
+  const complete = Array.isArray(legacy) && collections.length === legacy.length && colorCount(collections) === colorCount(legacy);
+  if (complete || !hasLegacyKey(LEGACY_COLLECTIONS_KEY)) {
+    removeLegacyKey(LEGACY_COLLECTIONS_KEY);
+  } else {
+    migrationNotice = `Some saved palettes could not be moved to the new storage. The originals are kept in this browser under "${LEGACY_COLLECTIONS_KEY}".`;
+    console.warn(migrationNotice);
+  }
+  removeLegacyKey(LEGACY_AI_CACHE_KEY);
+};
+
+const DATA_MIGRATIONS: { version: number; migrate: (db: IDBDatabase) => Promise<void> }[] = [
+  { version: 1, migrate: importLocalStorage },
+];
+
+const runMigrations = async (db: IDBDatabase) => {
+  const stored = await promisify(db.transaction(STORE_META).objectStore(STORE_META).get(META_SCHEMA_VERSION));
+  let version = typeof stored === 'number' ? stored : 0;
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Stored data is schema v${version}, newer than this app (v${SCHEMA_VERSION}).`);
+    return;
+  }
+  for (const step of DATA_MIGRATIONS) {
+    if (step.version <= version) continue;
+    await step.migrate(db);
+    const tx = db.transaction(STORE_META, 'readwrite');
+    tx.objectStore(STORE_META).put(step.version, META_SCHEMA_VERSION);
+    await completion(tx);
+    version = step.version;
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async db => {
+      await runMigrations(db);
+      return db;
+    });
+    // A failed open is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/** Short, user-facing reason for a failed read or write. */
+export const describeStorageError = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Browser storage is full. Export your palettes as a backup and remove unused ones.';
+  }
+  return error instanceof Error && error.message ? error.message : 'Browser storage is unavailable.';
+};
+
+// Serialized form of each collection as last written, so saves only touch changed records
+const written = new Map<string, string>();
+
+/** Loads and validates the stored collections; null when none are stored or none survive validation. */
+export const loadCollections = async (): Promise<Collection[] | null> => {
+  const db = await getDatabase();
+  const rows = await promisify<CollectionRow[]>(db.transaction(STORE_COLLECTIONS).objectStore(STORE_COLLECTIONS).getAll());
+  rows.sort((a, b) => a.position - b.position);
+  const collections = migrateCollections(rows.map(row => row.collection));
+  written.clear();
+  collections?.forEach((collection, position) => written.set(collection.id, JSON.stringify({ position, collection })));
+  return collections;
+};
+
+/** Writes only the collections that changed since the last save and deletes removed ones, in one transaction. */
+export const saveCollections = async (collections: Collection[]): Promise<void> => {
+  const db = await getDatabase();
+  const next = new Map(collections.map((collection, position) => [collection.id, JSON.stringify({ position, collection })]));
+  const changed = collections.filter(c => written.get(c.id) !== next.get(c.id));
+  const removed = Array.from(written.keys()).filter(id => !next.has(id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const tx = db.transaction(STORE_COLLECTIONS, 'readwrite');
+  const store = tx.objectStore(STORE_COLLECTIONS);
+  for (const collection of changed) {
+    store.put({ id: collection.id, position: collections.indexOf(collection), collection } satisfies CollectionRow);
+  }
+  for (const id of removed) store.delete(id);
+  await completion(tx);
+
+  for (const collection of changed) written.set(collection.id, next.get(collection.id)!);
+  for (const id of removed) written.delete(id);
+};
+
+/** Records collections another window has already written, so this one does not write them again. */
+export const markCollectionsSaved = ({ upserted, removed, order }: CollectionChanges) => {
+  for (const collection of upserted) written.set(collection.id, JSON.stringify({ position: order.indexOf(collection.id), collection }));
+  for (const id of removed) written.delete(id);
+};
+
+export const loadHistory = async (): Promise<StoredHistory> => {
+  const db = await getDatabase();
+  const stored = await promisify(db.transaction(STORE_META).objectStore(STORE_META).get(META_HISTORY));
+  const snapshots = (value: unknown) => (Array.isArray(value) ? value : [])
+    .map(migrateCollections)
+    .filter((c): c is Collection[] => c !== null);
+  return { past: snapshots(stored?.past), future: snapshots(stored?.future) };
+};
+
+export const saveHistory = async (history: StoredHistory): Promise<void> => {
+  const db = await getDatabase();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  tx.objectStore(STORE_META).put(history, META_HISTORY);
+  await completion(tx);
+};
+
+/** AI cache entries, least recently written first. */
+export const loadAiCache = async (): Promise<[string, unknown][]> => {
+  const db = await getDatabase();
+  const rows = await promisify<AiCacheRow[]>(
+    db.transaction(STORE_AI_CACHE).objectStore(STORE_AI_CACHE).index('updatedAt').getAll()
+  );
+  return rows.map(row => [row.key, row.value]);
+};
+
+export const putAiCacheEntries = async (entries: [string, unknown][]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(STORE_AI_CACHE, 'readwrite');
+  const now = Date.now();
+  for (const [key, value] of entries) tx.objectStore(STORE_AI_CACHE).put({ key, value, updatedAt: now } satisfies AiCacheRow);
+  await completion(tx);
+};
+
+export const deleteAiCacheEntries = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(STORE_AI_CACHE, 'readwrite');
+  for (const key of keys) tx.objectStore(STORE_AI_CACHE).delete(key);
+  await completion(tx);
+};
+
+/** User-loaded spot libraries as stored, oldest first; callers validate them. */
+export const loadSpotLibraries = async (): Promise<unknown[]> => {
+  const db = await getDatabase();
+  const rows = await promisify<SpotLibraryRow[]>(db.transaction(STORE_SPOT_LIBRARIES).objectStore(STORE_SPOT_LIBRARIES).getAll());
+  rows.sort((a, b) => a.addedAt - b.addedAt);
+  return rows.map(row => row.library);
+};
+
+/** Stores a spot library, replacing one with the same id. */
+export const putSpotLibrary = async (library: SpotLibrary): Promise<void> => {
+  const db = await getDatabase();
+  const tx = db.transaction(STORE_SPOT_LIBRARIES, 'readwrite');
+  tx.objectStore(STORE_SPOT_LIBRARIES).put({ id: library.id, library, addedAt: Date.now() } satisfies SpotLibraryRow);
+  await completion(tx);
+};
+
+export const deleteSpotLibrary = async (id: string): Promise<void> => {
+  const db = await getDatabase();
+  const tx = db.transaction(STORE_SPOT_LIBRARIES, 'readwrite');
+  tx.objectStore(STORE_SPOT_LIBRARIES).delete(id);
+  await completion(tx);
+};
@@ -0,0 +1,91 @@
+import { Collection } from '../types';
+
+// Live updates between windows of the app: BroadcastChannel where available,
+// otherwise the `storage` event, which fires in every other same-origin window.
+
+const CHANNEL_NAME = 'hexviewer-sync';
+const FALLBACK_KEY = 'hexviewer_sync';
+
+/** Collection edits travel as per-collection deltas so concurrent edits to different collections both survive. */
+export interface CollectionChanges {
+  upserted: Collection[];
+  removed: string[];
+  /** Collection IDs in the sender's order. */
+  order: string[];
+}
+
+export type SyncMessage =
+  | ({ type: 'collections' } & CollectionChanges)
+  | { type: 'ai-cache'; entries: [string, unknown][]; removed: string[] };
+
+const listeners = new Set<(message: SyncMessage) => void>();
+let channel: BroadcastChannel | null = null;
+let started = false;
+
+const deliver = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+
+const start = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => deliver(event.data);
+    return;
+  }
+  window.addEventListener('storage', (event) => {
+    if (event.key !== FALLBACK_KEY || !event.newValue) return;
+    try {
+      deliver(JSON.parse(event.newValue));
+    } catch (e) {
+      console.warn('Ignoring malformed sync message:', e);
+    }
+  });
+};
+
+export const postSyncMessage = (message: SyncMessage) => {
+  start();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // Removing right away keeps localStorage clean; the event has already fired elsewhere
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify(message));
+    localStorage.removeItem(FALLBACK_KEY);
+  } catch (e) {
+    console.warn('Failed to sync with other windows:', e);
+  }
+};
+
+export const subscribeSync = (listener: (message: SyncMessage) => void): (() => void) => {
+  start();
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** What changed between two states of the collection list; unchanged collections keep their object identity. */
+export const diffCollections = (previous: Collection[], next: Collection[]): CollectionChanges | null => {
+  const before = new Map(previous.map(c => [c.id, c]));
+  const after = new Set(next.map(c => c.id));
+  const upserted = next.filter(c => before.get(c.id) !== c);
+  const removed = previous.filter(c => !after.has(c.id)).map(c => c.id);
+  const order = next.map(c => c.id);
+  const reordered = order.filter(id => before.has(id)).join('\n') !== previous.map(c => c.id).filter(id => after.has(id)).join('\n');
+  return upserted.length || removed.length || reordered ? { upserted, removed, order } : null;
+};
+
+/** Applies another window's changes: those collections are replaced wholesale, every other one is left alone. */
+export const applyCollectionChanges = (collections: Collection[], changes: CollectionChanges): Collection[] => {
+  const incoming = new Map(changes.upserted.map(c => [c.id, c]));
+  const removed = new Set(changes.removed);
+  const next = collections.filter(c => !removed.has(c.id)).map(c => incoming.get(c.id) ?? c);
+  for (const c of changes.upserted) {
+    if (!next.some(n => n.id === c.id)) next.push(c);
+  }
+  // Follow the sender's order; collections it has not seen yet stay at the end
+  const rank = new Map(changes.order.map((id, i) => [id, i]));
+  return next
+    .map((c, i) => ({ c, rank: rank.get(c.id) ?? changes.order.length + i }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ c }) => c);
+};
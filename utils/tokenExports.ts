@@ -0,0 +1,147 @@
+import { CmykValues } from '../types';
+import { hexToRgb } from './colorUtils';
+import { createZip } from './zip';
+
+export type TokenFormat = 'css' | 'scss' | 'tailwind' | 'dtcg' | 'android' | 'ios';
+
+export interface TokenFormatInfo {
+  id: TokenFormat;
+  name: string;
+  filename: (slug: string) => string;
+}
+
+export const TOKEN_FORMATS: TokenFormatInfo[] = [
+  { id: 'css', name: 'CSS Variables', filename: slug => `${slug}.css` },
+  { id: 'scss', name: 'SCSS Map', filename: slug => `_${slug}.scss` },
+  { id: 'tailwind', name: 'Tailwind', filename: slug => `${slug}.tailwind.js` },
+  { id: 'dtcg', name: 'Design Tokens (DTCG)', filename: slug => `${slug}.tokens.json` },
+  { id: 'android', name: 'Android XML', filename: () => 'colors.xml' },
+  { id: 'ios', name: 'iOS Asset Catalog', filename: slug => `${slug}.xcassets.zip` },
+];
+
+export interface TokenColor {
+  slug: string;
+  hex: string;
+  cmyk: CmykValues;
+}
+
+/**
+ * Lowercase kebab-case, safe for CSS custom properties and file names. A leading
+ * digit gets a `c-` prefix, since SCSS variables, Android resources and the
+ * Swift symbols Xcode generates for color sets must start with a letter.
+ */
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/^(?=[0-9])/, 'c-');
+
+/** Suffixes repeated slugs so every token name is unique. */
+export const dedupeSlugs = (slugs: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return slugs.map(raw => {
+    const slug = raw || 'color';
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count + 1}`;
+  });
+};
+
+const camelCase = (slug: string) => slug.replace(/-([a-z0-9])/g, (_, ch: string) => ch.toUpperCase());
+const snakeCase = (slug: string) => slug.replace(/-/g, '_');
+
+const cmykList = ({ c, m, y, k }: CmykValues) => `${c}, ${m}, ${y}, ${k}`;
+
+const toCss = (name: string, colors: TokenColor[]) => [
+  ':root {',
+  ...colors.map(t => `  --${name}-${t.slug}: ${t.hex}; /* cmyk(${cmykList(t.cmyk)}) */`),
+  '}',
+].join('\n');
+
+const toScss = (name: string, colors: TokenColor[]) => [
+  `$${name}: (`,
+  ...colors.map((t, i) => `  '${t.slug}': ${t.hex}${i < colors.length - 1 ? ',' : ''}`),
+  ');',
+].join('\n');
+
+const toTailwind = (name: string, colors: TokenColor[]) => [
+  'module.exports = {',
+  '  theme: {',
+  '    extend: {',
+  '      colors: {',
+  `        '${name}': {`,
+  ...colors.map(t => `          '${t.slug}': '${t.hex}',`),
+  '        },',
+  '      },',
+  '    },',
+  '  },',
+  '};',
+].join('\n');
+
+const toDtcg = (name: string, colors: TokenColor[]) => JSON.stringify({
+  [name]: Object.fromEntries(colors.map(t => [t.slug, {
+    $type: 'color',
+    $value: t.hex.toLowerCase(),
+    $extensions: {
+      'com.hexviewer.cmyk': { c: t.cmyk.c, m: t.cmyk.m, y: t.cmyk.y, k: t.cmyk.k },
+    },
+  }])),
+}, null, 2);
+
+const toAndroid = (name: string, colors: TokenColor[]) => [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<resources>',
+  ...colors.map(t => `    <color name="${snakeCase(`${name}-${t.slug}`)}">#FF${t.hex.slice(1).toUpperCase()}</color>`),
+  '</resources>',
+].join('\n');
+
+const colorsetContents = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  const component = (v: number) => `0x${v.toString(16).padStart(2, '0').toUpperCase()}`;
+  return JSON.stringify({
+    colors: [{
+      idiom: 'universal',
+      color: {
+        'color-space': 'srgb',
+        components: { red: component(r), green: component(g), blue: component(b), alpha: '1.000' },
+      },
+    }],
+    info: { author: 'xcode', version: 1 },
+  }, null, 2);
+};
+
+const iosFiles = (name: string, colors: TokenColor[]) => {
+  const root = `${camelCase(name)}.xcassets`;
+  return [
+    { path: `${root}/Contents.json`, content: JSON.stringify({ info: { author: 'xcode', version: 1 } }, null, 2) },
+    ...colors.map(t => ({
+      path: `${root}/${camelCase(t.slug)}.colorset/Contents.json`,
+      content: colorsetContents(t.hex),
+    })),
+  ];
+};
+
+/** Text shown in the panel and copied to the clipboard. */
+export const generateTokens = (format: TokenFormat, collectionName: string, colors: TokenColor[]): string => {
+  const name = slugify(collectionName) || 'palette';
+  switch (format) {
+    case 'css': return toCss(name, colors);
+    case 'scss': return toScss(name, colors);
+    case 'tailwind': return toTailwind(name, colors);
+    case 'dtcg': return toDtcg(name, colors);
+    case 'android': return toAndroid(name, colors);
+    case 'ios': return iosFiles(name, colors).map(f => `// ${f.path}\n${f.content}`).join('\n\n');
+  }
+};
+
+/** Downloadable file; the iOS catalog is a folder, so it is zipped. */
+export const generateTokenFile = (format: TokenFormat, collectionName: string, colors: TokenColor[]): { blob: Blob; filename: string } => {
+  const name = slugify(collectionName) || 'palette';
+  const filename = TOKEN_FORMATS.find(f => f.id === format)!.filename(name);
+  if (format === 'ios') return { blob: createZip(iosFiles(name, colors)), filename };
+  const type = format === 'dtcg' ? 'application/json' : format === 'android' ? 'application/xml' : 'text/plain';
+  return { blob: new Blob([generateTokens(format, collectionName, colors)], { type }), filename };
+};
@@ -0,0 +1,117 @@
+import { RgbValues } from '../types';
+import { deltaE2000, linearToSrgb, rgbToLab, srgbToLinear } from './colorScience';
+import { hexToRgb, normalizeHex, rgbToHex } from './colorUtils';
+
+export type VisionDeficiency =
+  | 'protanopia' | 'deuteranopia' | 'tritanopia'
+  | 'protanomaly' | 'deuteranomaly' | 'tritanomaly'
+  | 'achromatopsia';
+
+export type VisionMode = 'normal' | VisionDeficiency;
+
+export const VISION_MODES: { id: VisionMode; name: string }[] = [
+  { id: 'normal', name: 'Normal vision' },
+  { id: 'protanopia', name: 'Protanopia' },
+  { id: 'deuteranopia', name: 'Deuteranopia' },
+  { id: 'tritanopia', name: 'Tritanopia' },
+  { id: 'protanomaly', name: 'Protanomaly' },
+  { id: 'deuteranomaly', name: 'Deuteranomaly' },
+  { id: 'tritanomaly', name: 'Tritanomaly' },
+  { id: 'achromatopsia', name: 'Achromatopsia' },
+];
+
+// Machado, Oliveira & Fernandes (2009) matrices on linear RGB. Dichromacies use
+// severity 1.0; the anomalous trichromacies use severity 0.6.
+export const VISION_MATRICES: Record<VisionDeficiency, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.011820, 0.042940, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.303900,
+  ],
+  protanomaly: [
+    0.385450, 0.769005, -0.154455,
+    0.100526, 0.829802, 0.069673,
+    -0.007442, -0.022190, 1.029632,
+  ],
+  deuteranomaly: [
+    0.498864, 0.674741, -0.173604,
+    0.205199, 0.754872, 0.039929,
+    -0.011131, 0.030969, 0.980162,
+  ],
+  tritanomaly: [
+    1.104996, -0.046633, -0.058363,
+    -0.032137, 0.971635, 0.060503,
+    0.001336, 0.317922, 0.680742,
+  ],
+  // Rod monochromacy: every channel collapses to relative luminance
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+  ],
+};
+
+// Pairs closer than this (Delta E 2000) after simulation are flagged as confusable
+export const CONFUSION_DELTA_E = 6;
+
+export interface ConfusablePair {
+  a: string;
+  b: string;
+  deltaE: number;
+  originalDeltaE: number;
+}
+
+export const simulateRgb = (rgb: RgbValues, deficiency: VisionDeficiency): RgbValues => {
+  const m = VISION_MATRICES[deficiency];
+  const r = srgbToLinear(rgb.r), g = srgbToLinear(rgb.g), b = srgbToLinear(rgb.b);
+  return {
+    r: linearToSrgb(m[0] * r + m[1] * g + m[2] * b),
+    g: linearToSrgb(m[3] * r + m[4] * g + m[5] * b),
+    b: linearToSrgb(m[6] * r + m[7] * g + m[8] * b),
+  };
+};
+
+export const simulateHex = (hex: string, mode: VisionMode): string => {
+  const normalized = normalizeHex(hex);
+  if (mode === 'normal') return normalized;
+  return rgbToHex(simulateRgb(hexToRgb(normalized), mode));
+};
+
+/** Selected colors that stay distinct for normal vision but collapse under a deficiency. */
+export const findConfusablePairs = (hexes: string[], deficiency: VisionDeficiency): ConfusablePair[] => {
+  const unique = Array.from(new Set(hexes.map(normalizeHex)));
+  const original = unique.map(h => rgbToLab(hexToRgb(h)));
+  const simulated = unique.map(h => rgbToLab(simulateRgb(hexToRgb(h), deficiency)));
+  const pairs: ConfusablePair[] = [];
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const originalDeltaE = deltaE2000(original[i], original[j]);
+      const deltaE = deltaE2000(simulated[i], simulated[j]);
+      if (deltaE < CONFUSION_DELTA_E && originalDeltaE >= CONFUSION_DELTA_E) {
+        pairs.push({ a: unique[i], b: unique[j], deltaE, originalDeltaE });
+      }
+    }
+  }
+  return pairs.sort((x, y) => x.deltaE - y.deltaE);
+};
+
+/** feColorMatrix `values` for an SVG filter (applied in linearRGB). */
+export const toSvgColorMatrix = (deficiency: VisionDeficiency): string => {
+  const m = VISION_MATRICES[deficiency];
+  return [
+    m[0], m[1], m[2], 0, 0,
+    m[3], m[4], m[5], 0, 0,
+    m[6], m[7], m[8], 0, 0,
+    0, 0, 0, 1, 0,
+  ].join(' ');
+};
@@ -0,0 +1,16 @@
+import { ExtractionOptions, extractPalette } from '../utils/paletteExtraction';
+
+export interface ExtractionRequest {
+  id: number;
+  pixels: Uint8ClampedArray;
+  options: ExtractionOptions;
+}
+
+self.onmessage = (event: MessageEvent<ExtractionRequest>) => {
+  const { id, pixels, options } = event.data;
+  try {
+    self.postMessage({ id, colors: extractPalette(pixels, options) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};